@@ -1,12 +1,15 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
+import "fhevm/lib/TFHE.sol";
+import "fhevm/config/ZamaFHEVMConfig.sol";
+
 /**
  * @title Anonymous Debt Manager - FHE-Style Privacy Contract
  * @dev 匿名债务重组 - 隐私债务管理平台核心合约
- * @notice 基于FHE风格加密的完全匿名债务管理系统
+ * @notice 基于FHE风格加密的完全匿名债务管理系统，加密条款使用Sepolia上的Zama fhEVM
  */
-contract AnonymousDebtManager {
+contract AnonymousDebtManager is SepoliaZamaFHEVMConfig {
 
     // 债务状态枚举
     enum DebtStatus { 
@@ -52,6 +55,13 @@ contract AnonymousDebtManager {
         bytes32 proposalPrivacyKey;      // 提案隐私密钥
     }
 
+    // 重组前的债务条款，按执行的提案ID保存
+    struct ReplacedTerms {
+        bytes32 encryptedAmountHash;     // 原金额加密哈希
+        bytes32 encryptedRateHash;       // 原利率加密哈希
+        bytes32 encryptedTermHash;       // 原期限加密哈希
+    }
+
     // 隐私访问控制
     struct PrivacyAccess {
         mapping(address => bool) authorizedReaders;  // 授权读取者
@@ -69,6 +79,12 @@ contract AnonymousDebtManager {
     mapping(uint256 => AnonymousProposal) private anonymousProposals;
     mapping(uint256 => PrivacyAccess) private debtPrivacyAccess;
     mapping(uint256 => PrivacyAccess) private proposalPrivacyAccess;
+    mapping(uint256 => ReplacedTerms) private replacedDebtTerms;
+    // 债务创建者，完全匿名债务的debtor字段为address(0)，权限校验以此为准
+    mapping(uint256 => address) private debtOwners;
+    // 条款是否为fhEVM密文句柄；明文提交的记录只保存承诺哈希，不能授予ACL
+    mapping(uint256 => bool) private encryptedDebtTerms;
+    mapping(uint256 => bool) private encryptedProposalTerms;
     
     // 用户数据索引
     mapping(address => uint256[]) public userDebts;
@@ -84,6 +100,10 @@ contract AnonymousDebtManager {
     bytes32 private constant PRIVACY_SALT = keccak256("ANONYMOUS_DEBT_PRIVACY_2024");
     bytes32 private constant ENCRYPTION_DOMAIN = keccak256("FHE_STYLE_ENCRYPTION_DOMAIN");
 
+    // 隐私级别
+    uint256 private constant PRIVACY_LEVEL_BASIC = 1;      // 基础隐私 - 授权读取者可见债务人
+    uint256 private constant PRIVACY_LEVEL_ANONYMOUS = 3;  // 完全匿名 - 债务人地址对所有读取者隐藏
+
     // 隐私事件 - 仅显示必要的匿名信息
     event AnonymousDebtCreated(
         uint256 indexed debtId, 
@@ -122,6 +142,32 @@ contract AnonymousDebtManager {
         uint256 timestamp
     );
 
+    event AnonymousAccessRevoked(
+        uint256 indexed debtId,
+        address indexed user,
+        uint256 timestamp
+    );
+
+    event PrivacyKeyRotated(
+        uint256 indexed debtId,
+        uint256 timestamp
+    );
+
+    event ProposalReviewNote(
+        uint256 indexed proposalId,
+        address indexed reviewer,
+        bool approved,
+        string encryptedNote,
+        uint256 timestamp
+    );
+
+    event CreditorAuthorizationChanged(
+        address indexed creditor,
+        bool authorized,
+        address indexed changedBy,
+        uint256 timestamp
+    );
+
     // 访问控制修饰符
     modifier onlyOwner() {
         require(msg.sender == owner, "Unauthorized: Owner only");
@@ -151,6 +197,7 @@ contract AnonymousDebtManager {
     constructor() {
         owner = msg.sender;
         authorizedCreditors[msg.sender] = true;
+        emit CreditorAuthorizationChanged(msg.sender, true, msg.sender, block.timestamp);
     }
 
     /**
@@ -177,18 +224,36 @@ contract AnonymousDebtManager {
      * @dev 检查债务隐私访问权限
      */
     function _hasDebtAccess(uint256 debtId, address user) private view returns (bool) {
-        return anonymousDebts[debtId].debtor == user ||
-               debtPrivacyAccess[debtId].authorizedReaders[user] ||
+        // 授权读取者的访问密钥必须与当前隐私密钥一致，密钥轮换后旧授权失效
+        return _isDebtOwner(debtId, user) ||
+               (debtPrivacyAccess[debtId].authorizedReaders[user] &&
+                debtPrivacyAccess[debtId].accessKeys[user] == anonymousDebts[debtId].privacyKey) ||
                authorizedCreditors[user] ||
                owner == user;
     }
 
+    /**
+     * @dev 检查地址是否为债务创建者
+     */
+    function _isDebtOwner(uint256 debtId, address user) private view returns (bool) {
+        return debtOwners[debtId] == user;
+    }
+
+    /**
+     * @dev 授予地址对三个条款密文的ACL访问，使其可以通过网关重加密解密
+     */
+    function _allowTerms(bytes32 amountHandle, bytes32 rateHandle, bytes32 termHandle, address user) private {
+        TFHE.allow(euint64.wrap(uint256(amountHandle)), user);
+        TFHE.allow(euint16.wrap(uint256(rateHandle)), user);
+        TFHE.allow(euint16.wrap(uint256(termHandle)), user);
+    }
+
     /**
      * @dev 检查提案隐私访问权限
      */
     function _hasProposalAccess(uint256 proposalId, address user) private view returns (bool) {
         return anonymousProposals[proposalId].proposer == user ||
-               anonymousDebts[anonymousProposals[proposalId].debtId].debtor == user ||
+               _isDebtOwner(anonymousProposals[proposalId].debtId, user) ||
                proposalPrivacyAccess[proposalId].authorizedReaders[user] ||
                authorizedCreditors[user] ||
                owner == user;
@@ -208,12 +273,59 @@ contract AnonymousDebtManager {
         require(interestRate <= 10000, "Interest rate too high");
         require(termDays > 0 && termDays <= 36500, "Invalid term range");
 
-        uint256 debtId = nextDebtId++;
-
         // 生成FHE风格隐私哈希
         bytes32 amountHash = _generatePrivacyHash(amount, msg.sender, "AMOUNT");
         bytes32 rateHash = _generatePrivacyHash(interestRate, msg.sender, "RATE");
         bytes32 termHash = _generatePrivacyHash(termDays, msg.sender, "TERM");
+
+        return _storeAnonymousDebt(amountHash, rateHash, termHash, fullyAnonymous, encryptedDescription);
+    }
+
+    /**
+     * @dev 使用客户端FHE加密输入创建匿名债务 - 金额、利率、期限不以明文出现在调用数据中
+     * @param encryptedAmount 加密金额句柄 (euint64)
+     * @param encryptedRate 加密利率句柄 (euint16, 基点)
+     * @param encryptedTerm 加密期限句柄 (euint16, 天)
+     * @param inputProof 加密输入证明
+     */
+    function createEncryptedDebt(
+        einput encryptedAmount,
+        einput encryptedRate,
+        einput encryptedTerm,
+        bytes calldata inputProof,
+        bool fullyAnonymous,
+        string calldata encryptedDescription
+    ) external returns (uint256) {
+        // 导入句柄时由fhEVM验证inputProof，证明必须由调用者针对本合约生成
+        euint64 amount = TFHE.asEuint64(encryptedAmount, inputProof);
+        euint16 rate = TFHE.asEuint16(encryptedRate, inputProof);
+        euint16 term = TFHE.asEuint16(encryptedTerm, inputProof);
+        TFHE.allowThis(amount);
+        TFHE.allowThis(rate);
+        TFHE.allowThis(term);
+
+        // 范围校验在加密域中无法进行，句柄直接作为加密数据存储
+        bytes32 amountHandle = bytes32(euint64.unwrap(amount));
+        bytes32 rateHandle = bytes32(euint16.unwrap(rate));
+        bytes32 termHandle = bytes32(euint16.unwrap(term));
+        uint256 debtId = _storeAnonymousDebt(amountHandle, rateHandle, termHandle, fullyAnonymous, encryptedDescription);
+
+        encryptedDebtTerms[debtId] = true;
+        _allowTerms(amountHandle, rateHandle, termHandle, msg.sender);
+        return debtId;
+    }
+
+    /**
+     * @dev 存储匿名债务记录并设置隐私访问
+     */
+    function _storeAnonymousDebt(
+        bytes32 amountHash,
+        bytes32 rateHash,
+        bytes32 termHash,
+        bool fullyAnonymous,
+        string calldata encryptedDescription
+    ) private returns (uint256) {
+        uint256 debtId = nextDebtId++;
         bytes32 privacyKey = _generatePrivacyHash(debtId, msg.sender, "PRIVACY_KEY");
 
         // 创建匿名债务记录
@@ -228,11 +340,12 @@ contract AnonymousDebtManager {
             privacyKey: privacyKey,
             encryptedDescription: encryptedDescription
         });
+        debtOwners[debtId] = msg.sender;
 
         // 设置隐私访问控制
         debtPrivacyAccess[debtId].authorizedReaders[msg.sender] = true;
         debtPrivacyAccess[debtId].accessKeys[msg.sender] = privacyKey;
-        debtPrivacyAccess[debtId].accessLevel = fullyAnonymous ? 3 : 1; // 3=完全匿名, 1=基础隐私
+        debtPrivacyAccess[debtId].accessLevel = fullyAnonymous ? PRIVACY_LEVEL_ANONYMOUS : PRIVACY_LEVEL_BASIC;
 
         // 更新用户索引和统计
         userDebts[msg.sender].push(debtId);
@@ -262,12 +375,61 @@ contract AnonymousDebtManager {
         require(newInterestRate <= 10000, "New rate too high");
         require(newTermDays > 0 && newTermDays <= 36500, "Invalid new term");
 
-        uint256 proposalId = nextProposalId++;
-
         // 生成新的FHE风格隐私哈希
         bytes32 newAmountHash = _generatePrivacyHash(newAmount, msg.sender, "NEW_AMOUNT");
         bytes32 newRateHash = _generatePrivacyHash(newInterestRate, msg.sender, "NEW_RATE");
         bytes32 newTermHash = _generatePrivacyHash(newTermDays, msg.sender, "NEW_TERM");
+
+        return _storeAnonymousProposal(debtId, newAmountHash, newRateHash, newTermHash, encryptedReason);
+    }
+
+    /**
+     * @dev 使用客户端FHE加密输入提交重组提案
+     * @param encryptedNewAmount 加密新金额句柄 (euint64)
+     * @param encryptedNewRate 加密新利率句柄 (euint16, 基点)
+     * @param encryptedNewTerm 加密新期限句柄 (euint16, 天)
+     * @param inputProof 加密输入证明
+     */
+    function proposeEncryptedRestructuring(
+        uint256 debtId,
+        einput encryptedNewAmount,
+        einput encryptedNewRate,
+        einput encryptedNewTerm,
+        bytes calldata inputProof,
+        string calldata encryptedReason
+    ) external validDebtId(debtId) returns (uint256) {
+        require(anonymousDebts[debtId].status == DebtStatus.ACTIVE, "Debt not active");
+
+        euint64 newAmount = TFHE.asEuint64(encryptedNewAmount, inputProof);
+        euint16 newRate = TFHE.asEuint16(encryptedNewRate, inputProof);
+        euint16 newTerm = TFHE.asEuint16(encryptedNewTerm, inputProof);
+        TFHE.allowThis(newAmount);
+        TFHE.allowThis(newRate);
+        TFHE.allowThis(newTerm);
+
+        bytes32 amountHandle = bytes32(euint64.unwrap(newAmount));
+        bytes32 rateHandle = bytes32(euint16.unwrap(newRate));
+        bytes32 termHandle = bytes32(euint16.unwrap(newTerm));
+        uint256 proposalId = _storeAnonymousProposal(debtId, amountHandle, rateHandle, termHandle, encryptedReason);
+
+        // 提案人和债务人都需要解密新条款进行审批
+        encryptedProposalTerms[proposalId] = true;
+        _allowTerms(amountHandle, rateHandle, termHandle, msg.sender);
+        _allowTerms(amountHandle, rateHandle, termHandle, debtOwners[debtId]);
+        return proposalId;
+    }
+
+    /**
+     * @dev 存储重组提案并设置提案隐私访问
+     */
+    function _storeAnonymousProposal(
+        uint256 debtId,
+        bytes32 newAmountHash,
+        bytes32 newRateHash,
+        bytes32 newTermHash,
+        string calldata encryptedReason
+    ) private returns (uint256) {
+        uint256 proposalId = nextProposalId++;
         bytes32 proposalPrivacyKey = _generatePrivacyHash(proposalId, msg.sender, "PROPOSAL_KEY");
 
         // 创建匿名提案
@@ -286,12 +448,11 @@ contract AnonymousDebtManager {
         });
 
         // 设置提案隐私访问
-        address debtor = anonymousDebts[debtId].debtor;
+        address debtor = debtOwners[debtId];
+        bool debtorHidden = anonymousDebts[debtId].isAnonymous;
         proposalPrivacyAccess[proposalId].authorizedReaders[msg.sender] = true;
-        if (debtor != address(0)) {
-            proposalPrivacyAccess[proposalId].authorizedReaders[debtor] = true;
-        }
-        proposalPrivacyAccess[proposalId].accessLevel = anonymousDebts[debtId].isAnonymous ? 3 : 1;
+        proposalPrivacyAccess[proposalId].authorizedReaders[debtor] = true;
+        proposalPrivacyAccess[proposalId].accessLevel = debtorHidden ? PRIVACY_LEVEL_ANONYMOUS : PRIVACY_LEVEL_BASIC;
 
         userProposals[msg.sender].push(proposalId);
         totalActiveProposals++;
@@ -300,7 +461,8 @@ contract AnonymousDebtManager {
         
         emit AnonymousProposalSubmitted(proposalId, debtId, msg.sender, proposalHash, block.timestamp);
         emit PrivacyAccessGranted(proposalId, msg.sender, "PROPOSAL_CREATOR", block.timestamp);
-        if (debtor != address(0)) {
+        // 完全匿名债务不在事件中暴露债务人
+        if (!debtorHidden) {
             emit PrivacyAccessGranted(proposalId, debtor, "DEBT_OWNER", block.timestamp);
         }
 
@@ -315,11 +477,30 @@ contract AnonymousDebtManager {
         validProposalId(proposalId) 
         hasProposalAccess(proposalId)
     {
+        _processProposal(proposalId, approve);
+    }
+
+    /**
+     * @dev 审批或拒绝提案并附加加密备注（债权人审核使用）
+     */
+    function reviewAnonymousProposal(uint256 proposalId, bool approve, string calldata encryptedNote)
+        external
+        validProposalId(proposalId)
+        hasProposalAccess(proposalId)
+    {
+        _processProposal(proposalId, approve);
+        emit ProposalReviewNote(proposalId, msg.sender, approve, encryptedNote, block.timestamp);
+    }
+
+    /**
+     * @dev 记录债务人或债权人的审批结果
+     */
+    function _processProposal(uint256 proposalId, bool approve) private {
         AnonymousProposal storage proposal = anonymousProposals[proposalId];
         require(proposal.status == ProposalStatus.PENDING, "Proposal not pending");
 
         uint256 debtId = proposal.debtId;
-        bool isDebtor = anonymousDebts[debtId].debtor == msg.sender;
+        bool isDebtor = _isDebtOwner(debtId, msg.sender);
         bool isCreditor = authorizedCreditors[msg.sender];
 
         require(isDebtor || isCreditor, "Not authorized to process proposal");
@@ -353,6 +534,20 @@ contract AnonymousDebtManager {
 
         uint256 debtId = proposal.debtId;
         AnonymousDebt storage debt = anonymousDebts[debtId];
+        // 只有活跃债务可以重组，已解决的债务不能被覆盖
+        require(debt.status == DebtStatus.ACTIVE, "Debt not active");
+
+        // 保留重组前的条款以便对比
+        replacedDebtTerms[proposalId] = ReplacedTerms({
+            encryptedAmountHash: debt.encryptedAmountHash,
+            encryptedRateHash: debt.encryptedRateHash,
+            encryptedTermHash: debt.encryptedTermHash
+        });
+        // 债务人已拥有原条款的ACL，提案人需要获得访问才能进行对比
+        if (encryptedDebtTerms[debtId]) {
+            _allowTerms(debt.encryptedAmountHash, debt.encryptedRateHash, debt.encryptedTermHash, proposal.proposer);
+        }
+        encryptedDebtTerms[debtId] = encryptedProposalTerms[proposalId];
 
         // 更新债务的FHE风格加密数据
         debt.encryptedAmountHash = proposal.encryptedNewAmountHash;
@@ -375,7 +570,9 @@ contract AnonymousDebtManager {
         validDebtId(debtId) 
         hasPrivacyAccess(debtId)
     {
-        require(anonymousDebts[debtId].status == DebtStatus.ACTIVE, "Debt not active");
+        // 重组后的债务仍需按新条款清偿，因此也可以标记为已解决
+        DebtStatus status = anonymousDebts[debtId].status;
+        require(status == DebtStatus.ACTIVE || status == DebtStatus.RESTRUCTURED, "Debt not active");
         
         anonymousDebts[debtId].status = DebtStatus.RESOLVED;
         totalResolvedDebts++;
@@ -464,21 +661,137 @@ contract AnonymousDebtManager {
         validDebtId(debtId) 
     {
         require(
-            anonymousDebts[debtId].debtor == msg.sender || owner == msg.sender,
+            _isDebtOwner(debtId, msg.sender) || owner == msg.sender,
             "Not authorized to grant access"
         );
         
         debtPrivacyAccess[debtId].authorizedReaders[user] = true;
         debtPrivacyAccess[debtId].accessKeys[user] = anonymousDebts[debtId].privacyKey;
+
+        // ACL授权是永久的，撤销或轮换密钥后该地址仍可解密当前条款，直到条款被重组替换
+        if (encryptedDebtTerms[debtId]) {
+            AnonymousDebt storage debt = anonymousDebts[debtId];
+            _allowTerms(debt.encryptedAmountHash, debt.encryptedRateHash, debt.encryptedTermHash, user);
+        }
         
         emit PrivacyAccessGranted(debtId, user, "DEBT_ACCESS", block.timestamp);
     }
 
+    /**
+     * @dev 撤销指定地址的债务隐私访问权限
+     */
+    function revokePrivacyAccess(uint256 debtId, address user)
+        external
+        validDebtId(debtId)
+    {
+        require(
+            _isDebtOwner(debtId, msg.sender) || owner == msg.sender,
+            "Not authorized to manage access"
+        );
+        require(debtPrivacyAccess[debtId].authorizedReaders[user], "No access to revoke");
+
+        debtPrivacyAccess[debtId].authorizedReaders[user] = false;
+        delete debtPrivacyAccess[debtId].accessKeys[user];
+
+        emit AnonymousAccessRevoked(debtId, user, block.timestamp);
+    }
+
+    /**
+     * @dev 轮换债务隐私密钥 - 所有已授权读取者失效，需要重新授权
+     */
+    function rotatePrivacyKey(uint256 debtId)
+        external
+        validDebtId(debtId)
+    {
+        require(
+            _isDebtOwner(debtId, msg.sender) || owner == msg.sender,
+            "Not authorized to manage access"
+        );
+
+        _rotatePrivacyKey(debtId);
+    }
+
+    /**
+     * @dev 生成新隐私密钥，使此前的授权读取者失效
+     */
+    function _rotatePrivacyKey(uint256 debtId) private {
+        bytes32 newPrivacyKey = _generatePrivacyHash(debtId, msg.sender, "PRIVACY_KEY_ROTATION");
+        anonymousDebts[debtId].privacyKey = newPrivacyKey;
+
+        // 轮换者保留读取权限
+        if (debtPrivacyAccess[debtId].authorizedReaders[msg.sender]) {
+            debtPrivacyAccess[debtId].accessKeys[msg.sender] = newPrivacyKey;
+        }
+
+        emit PrivacyKeyRotated(debtId, block.timestamp);
+    }
+
+    /**
+     * @dev 开启完全匿名模式 - 对所有读取者隐藏债务人地址
+     * @param revokeExistingAccess 同时轮换隐私密钥，撤销已知晓债务人身份的读取者
+     */
+    function enableAnonymousMode(uint256 debtId, bool revokeExistingAccess)
+        external
+        validDebtId(debtId)
+    {
+        require(_isDebtOwner(debtId, msg.sender), "Only debtor can change privacy");
+        require(!anonymousDebts[debtId].isAnonymous, "Already anonymous");
+
+        if (revokeExistingAccess) {
+            _rotatePrivacyKey(debtId);
+        }
+        _setPrivacyLevel(debtId, true);
+    }
+
+    /**
+     * @dev 关闭完全匿名模式 - 授权读取者可再次看到债务人地址
+     */
+    function disableAnonymousMode(uint256 debtId)
+        external
+        validDebtId(debtId)
+    {
+        require(_isDebtOwner(debtId, msg.sender), "Only debtor can change privacy");
+        require(anonymousDebts[debtId].isAnonymous, "Not anonymous");
+
+        _setPrivacyLevel(debtId, false);
+    }
+
+    /**
+     * @dev 更新债务隐私级别并发出事件
+     */
+    function _setPrivacyLevel(uint256 debtId, bool fullyAnonymous) private {
+        uint256 level = fullyAnonymous ? PRIVACY_LEVEL_ANONYMOUS : PRIVACY_LEVEL_BASIC;
+        anonymousDebts[debtId].isAnonymous = fullyAnonymous;
+        // 完全匿名时不在债务记录中保存债务人地址
+        anonymousDebts[debtId].debtor = fullyAnonymous ? address(0) : debtOwners[debtId];
+        debtPrivacyAccess[debtId].accessLevel = level;
+
+        emit PrivacyLevelChanged(debtId, "DEBT", level, block.timestamp);
+    }
+
+    /**
+     * @dev 检查地址当前是否拥有债务隐私访问权限
+     */
+    function verifyPrivacyAccess(uint256 debtId, address user)
+        external
+        view
+        validDebtId(debtId)
+        returns (bool)
+    {
+        return _hasDebtAccess(debtId, user);
+    }
+
     /**
      * @dev 设置授权债权人
      */
     function setAuthorizedCreditor(address creditor, bool authorized) external onlyOwner {
+        require(creditor != address(0), "Invalid creditor address");
+        require(authorizedCreditors[creditor] != authorized, "Creditor status unchanged");
+
         authorizedCreditors[creditor] = authorized;
+
+        // 通过事件记录白名单变更，供管理后台审计
+        emit CreditorAuthorizationChanged(creditor, authorized, msg.sender, block.timestamp);
     }
 
     /**
@@ -495,6 +808,49 @@ contract AnonymousDebtManager {
         return (debt.encryptedAmountHash, debt.encryptedRateHash, debt.encryptedTermHash);
     }
 
+    /**
+     * @dev 获取债务加密数据句柄 - 用于客户端重加密解密
+     */
+    function getEncryptedDebtData(uint256 debtId)
+        external
+        view
+        validDebtId(debtId)
+        hasPrivacyAccess(debtId)
+        returns (bytes32 encryptedAmount, bytes32 encryptedRate, bytes32 encryptedTerm)
+    {
+        AnonymousDebt storage debt = anonymousDebts[debtId];
+        return (debt.encryptedAmountHash, debt.encryptedRateHash, debt.encryptedTermHash);
+    }
+
+    /**
+     * @dev 获取被提案替换的原债务条款句柄 - 用于重组前后对比
+     */
+    function getReplacedDebtData(uint256 proposalId)
+        external
+        view
+        validProposalId(proposalId)
+        hasProposalAccess(proposalId)
+        returns (bytes32 encryptedAmount, bytes32 encryptedRate, bytes32 encryptedTerm)
+    {
+        require(anonymousProposals[proposalId].status == ProposalStatus.EXECUTED, "Proposal not executed");
+        ReplacedTerms storage terms = replacedDebtTerms[proposalId];
+        return (terms.encryptedAmountHash, terms.encryptedRateHash, terms.encryptedTermHash);
+    }
+
+    /**
+     * @dev 获取提案加密数据句柄 - 用于客户端重加密解密
+     */
+    function getEncryptedProposalData(uint256 proposalId)
+        external
+        view
+        validProposalId(proposalId)
+        hasProposalAccess(proposalId)
+        returns (bytes32 encryptedNewAmount, bytes32 encryptedNewRate, bytes32 encryptedNewTerm)
+    {
+        AnonymousProposal storage proposal = anonymousProposals[proposalId];
+        return (proposal.encryptedNewAmountHash, proposal.encryptedNewRateHash, proposal.encryptedNewTermHash);
+    }
+
     /**
      * @dev 验证FHE加密数据完整性
      */
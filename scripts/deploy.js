@@ -1,5 +1,10 @@
+const fs = require("fs");
+const path = require("path");
 const { ethers } = require("hardhat");
 
+// Read by src/constants at build time
+const ENV_PATH = path.join(__dirname, "..", ".env.local");
+
 async function main() {
   console.log("Deploying AnonymousDebtManager contract...");
 
@@ -11,7 +16,16 @@ async function main() {
   await contract.waitForDeployment();
 
   const contractAddress = await contract.getAddress();
+  const receipt = await contract.deploymentTransaction().wait();
   console.log("AnonymousDebtManager deployed to:", contractAddress);
+  console.log("Deployment block:", receipt.blockNumber);
+
+  // The event indexer starts scanning at the deployment block
+  fs.writeFileSync(
+    ENV_PATH,
+    `VITE_CONTRACT_ADDRESS=${contractAddress}\nVITE_CONTRACT_DEPLOYMENT_BLOCK=${receipt.blockNumber}\n`
+  );
+  console.log(`Wrote ${path.relative(process.cwd(), ENV_PATH)}`);
 
   // Verify contract on blockchain explorer if needed
   console.log("\nContract deployment completed!");
@@ -21,6 +35,7 @@ async function main() {
   // Save deployment info
   const deploymentInfo = {
     contractAddress,
+    deploymentBlock: receipt.blockNumber,
     network: (await ethers.provider.getNetwork()).name,
     deploymentTime: new Date().toISOString(),
     contractName: "AnonymousDebtManager"
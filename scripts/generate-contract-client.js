@@ -0,0 +1,146 @@
+// Generates src/contract/AnonymousDebtManager.generated.ts from the Solidity source.
+//
+//   node scripts/generate-contract-client.js          write the generated module
+//   node scripts/generate-contract-client.js --check  fail if the module has drifted
+
+const fs = require("fs");
+const path = require("path");
+const solc = require("solc");
+
+const CONTRACT_NAME = "AnonymousDebtManager";
+const SOURCE_PATH = path.join(__dirname, "..", "contracts", `${CONTRACT_NAME}.sol`);
+const OUTPUT_PATH = path.join(__dirname, "..", "src", "contract", `${CONTRACT_NAME}.generated.ts`);
+const NODE_MODULES = path.join(__dirname, "..", "node_modules");
+
+// Library imports such as fhevm/lib/TFHE.sol resolve from node_modules
+function findImport(importPath) {
+  try {
+    return { contents: fs.readFileSync(path.join(NODE_MODULES, importPath), "utf8") };
+  } catch (error) {
+    return { error: `Cannot find import ${importPath}` };
+  }
+}
+
+function compileAbi() {
+  const input = {
+    language: "Solidity",
+    sources: { [`${CONTRACT_NAME}.sol`]: { content: fs.readFileSync(SOURCE_PATH, "utf8") } },
+    settings: { outputSelection: { "*": { [CONTRACT_NAME]: ["abi"] } } },
+  };
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input), { import: findImport }));
+  const errors = (output.errors || []).filter((error) => error.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(errors.map((error) => error.formattedMessage).join("\n"));
+  }
+
+  return output.contracts[`${CONTRACT_NAME}.sol`][CONTRACT_NAME].abi;
+}
+
+const pascalCase = (name) => name.charAt(0).toUpperCase() + name.slice(1);
+
+const paramName = (param, index) => param.name || `arg${index}`;
+
+function inputType(type) {
+  if (type.endsWith("[]")) return `Array<${inputType(type.slice(0, -2))}>`;
+  if (/^u?int\d*$/.test(type)) return "ethers.BigNumberish";
+  if (type === "bool") return "boolean";
+  if (type.startsWith("bytes")) return "ethers.BytesLike";
+  return "string";
+}
+
+function outputType(type) {
+  if (type.endsWith("[]")) return `${outputType(type.slice(0, -2))}[]`;
+  if (/^u?int\d*$/.test(type)) return "bigint";
+  if (type === "bool") return "boolean";
+  return "string";
+}
+
+function renderModule(abi) {
+  const functions = abi
+    .filter((item) => item.type === "function")
+    .sort((a, b) => a.name.localeCompare(b.name));
+  const events = abi
+    .filter((item) => item.type === "event")
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const lines = [];
+  lines.push(`// AUTO-GENERATED from contracts/${CONTRACT_NAME}.sol by scripts/generate-contract-client.js`);
+  lines.push("// Do not edit by hand - run `npm run generate:contract` after changing the contract.");
+  lines.push("");
+  lines.push("import { ethers } from 'ethers'");
+  lines.push("");
+  lines.push(`export const ANONYMOUS_DEBT_MANAGER_ABI = ${JSON.stringify(abi, null, 2)} as const`);
+
+  for (const fn of functions) {
+    if (fn.outputs.length > 1) {
+      lines.push("");
+      lines.push(`export interface ${pascalCase(fn.name)}Result {`);
+      fn.outputs.forEach((output, i) => {
+        lines.push(`  ${paramName(output, i)}: ${outputType(output.type)}`);
+      });
+      lines.push("}");
+    }
+  }
+
+  lines.push("");
+  lines.push("export interface DebtManagerFunctions {");
+  for (const fn of functions) {
+    const args = fn.inputs.map((input, i) => `${paramName(input, i)}: ${inputType(input.type)}`).join(", ");
+    let result = "void";
+    if (fn.outputs.length === 1) result = outputType(fn.outputs[0].type);
+    if (fn.outputs.length > 1) result = `${pascalCase(fn.name)}Result`;
+    lines.push(`  ${fn.name}: { args: [${args}]; result: ${result} }`);
+  }
+  lines.push("}");
+
+  const isView = (fn) => fn.stateMutability === "view" || fn.stateMutability === "pure";
+  const union = (names) => names.map((name) => `'${name}'`).join(" | ");
+
+  lines.push("");
+  lines.push(`export const DEBT_MANAGER_VIEW_METHODS = [${functions.filter(isView).map((fn) => `'${fn.name}'`).join(", ")}] as const`);
+  lines.push("");
+  lines.push(`export const DEBT_MANAGER_WRITE_METHODS = [${functions.filter((fn) => !isView(fn)).map((fn) => `'${fn.name}'`).join(", ")}] as const`);
+
+  for (const event of events) {
+    lines.push("");
+    lines.push(`export interface ${event.name}Event {`);
+    event.inputs.forEach((input, i) => {
+      lines.push(`  ${paramName(input, i)}: ${outputType(input.type)}`);
+    });
+    lines.push("}");
+  }
+
+  lines.push("");
+  lines.push("export interface DebtManagerEvents {");
+  for (const event of events) {
+    lines.push(`  ${event.name}: ${event.name}Event`);
+  }
+  lines.push("}");
+  lines.push("");
+  lines.push(`export type DebtManagerEventName = ${union(events.map((event) => event.name))}`);
+  lines.push("");
+
+  return lines.join("\n");
+}
+
+function main() {
+  const generated = renderModule(compileAbi());
+
+  if (process.argv.includes("--check")) {
+    const current = fs.existsSync(OUTPUT_PATH) ? fs.readFileSync(OUTPUT_PATH, "utf8") : "";
+    if (current !== generated) {
+      console.error(`${path.relative(process.cwd(), OUTPUT_PATH)} is out of date with contracts/${CONTRACT_NAME}.sol.`);
+      console.error("Run `npm run generate:contract` and commit the result.");
+      process.exit(1);
+    }
+    console.log("Contract client is up to date.");
+    return;
+  }
+
+  fs.mkdirSync(path.dirname(OUTPUT_PATH), { recursive: true });
+  fs.writeFileSync(OUTPUT_PATH, generated);
+  console.log(`Wrote ${path.relative(process.cwd(), OUTPUT_PATH)}`);
+}
+
+main();
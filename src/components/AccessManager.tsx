@@ -0,0 +1,168 @@
+import React, { useState } from 'react'
+import { EXPLORER_URLS } from '@/constants'
+import { Projection, selectAccessHolders } from '@/indexer'
+import { formatAddress, isValidEthereumAddress } from '@/utils'
+
+interface AccessManagerProps {
+  debtId: number
+  // Indexed contract events; holders are rebuilt from grants, revocations and key rotations
+  projection?: Projection
+  onGrant: (debtId: number, address: string) => Promise<boolean>
+  onRevoke: (debtId: number, address: string) => Promise<boolean>
+  onRotate: (debtId: number) => Promise<boolean>
+  // Asks the contract whether an address can read the debt right now
+  onVerify?: (debtId: number, address: string) => Promise<boolean | null>
+  // Reveals the key that opens the sealed description, to be sent to a reader out of band
+  onShareKey?: (debtId: number) => Promise<string | null>
+  isLoading: boolean
+}
+
+const AccessManager: React.FC<AccessManagerProps> = ({
+  debtId,
+  projection,
+  onGrant,
+  onRevoke,
+  onRotate,
+  onVerify,
+  onShareKey,
+  isLoading,
+}) => {
+  const [address, setAddress] = useState('')
+  const [checked, setChecked] = useState<{ address: string; hasAccess: boolean } | null>(null)
+  const [sharedKey, setSharedKey] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const holders = projection ? selectAccessHolders(projection, debtId) : []
+  const isAddressValid = isValidEthereumAddress(address.trim())
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp * 1000).toLocaleDateString()
+  }
+
+  const handleGrant = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (await onGrant(debtId, address.trim())) {
+      setAddress('')
+    }
+  }
+
+  const handleVerify = async () => {
+    const target = address.trim()
+    const hasAccess = await onVerify!(debtId, target)
+    setChecked(hasAccess === null ? null : { address: target, hasAccess })
+  }
+
+  const handleShareKey = async () => {
+    if (sharedKey) {
+      setSharedKey(null)
+      return
+    }
+    setCopied(false)
+    setSharedKey(await onShareKey!(debtId))
+  }
+
+  const handleCopyKey = async () => {
+    if (!sharedKey) return
+    await navigator.clipboard.writeText(sharedKey)
+    setCopied(true)
+  }
+
+  const handleRotate = () => {
+    if (
+      window.confirm(
+        'Rotating the key revokes contract access for every address below. It does not re-seal the description: ' +
+          'anyone you shared its access key with can still read it, and decryption already granted on the ' +
+          'current encrypted terms stays in place. Continue?'
+      )
+    ) {
+      onRotate(debtId)
+    }
+  }
+
+  return (
+    <div className="access-manager">
+      <h4>&gt; Privacy Access ({holders.length})</h4>
+
+      {!projection ? (
+        <p>&gt; Access history is unavailable until the event index has synced.</p>
+      ) : holders.length === 0 ? (
+        <p>&gt; Only you can read this debt.</p>
+      ) : (
+        <ul className="access-holders">
+          {holders.map((holder) => (
+            <li key={holder.user} className="detail-row">
+              <span>
+                <a href={`${EXPLORER_URLS.ADDRESS}/${holder.user}`} target="_blank" rel="noopener noreferrer">
+                  {formatAddress(holder.user)}
+                </a>
+                {' '}· since {formatDate(holder.timestamp)}
+              </span>
+              <button
+                type="button"
+                className="secondary-button"
+                onClick={() => onRevoke(debtId, holder.user)}
+                disabled={isLoading}
+              >
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleGrant} className="access-grant-form">
+        <div className="form-group">
+          <label htmlFor={`grantAddress-${debtId}`}>&gt; Grant read access to:</label>
+          <input
+            type="text"
+            id={`grantAddress-${debtId}`}
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder="0x..."
+          />
+          {address && !isAddressValid && (
+            <small>&gt; ⚠️ Not a valid Ethereum address</small>
+          )}
+        </div>
+        <button type="submit" className="secondary-button" disabled={isLoading || !isAddressValid}>
+          🔑 Grant Access
+        </button>
+        {onVerify && (
+          <button type="button" className="secondary-button" onClick={handleVerify} disabled={isLoading || !isAddressValid}>
+            🔍 Check Access
+          </button>
+        )}
+        {onShareKey && (
+          <button type="button" className="secondary-button" onClick={handleShareKey} disabled={isLoading}>
+            {sharedKey ? '🙈 Hide Key' : '📤 Share Key'}
+          </button>
+        )}
+        <button type="button" className="secondary-button" onClick={handleRotate} disabled={isLoading}>
+          🔄 Rotate Key
+        </button>
+      </form>
+
+      {checked && (
+        <p>
+          &gt; {checked.hasAccess ? '✅' : '⛔'} {formatAddress(checked.address)}{' '}
+          {checked.hasAccess ? 'can read this debt' : 'cannot read this debt'}
+        </p>
+      )}
+
+      {sharedKey && (
+        <div className="form-group">
+          <label htmlFor={`sharedKey-${debtId}`}>&gt; Access key for debt #{debtId}:</label>
+          <input type="text" id={`sharedKey-${debtId}`} value={sharedKey} readOnly />
+          <small>
+            &gt; Send it privately to an address you granted access; they add it in their Access Keyring to read the
+            description.
+          </small>
+          <button type="button" className="secondary-button" onClick={handleCopyKey}>
+            {copied ? '✅ Copied' : '📋 Copy Key'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AccessManager
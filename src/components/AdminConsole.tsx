@@ -0,0 +1,144 @@
+import React, { useState } from 'react'
+import { EXPLORER_URLS } from '@/constants'
+import { useAdminConsole } from '@/hooks/useAdminConsole'
+import { formatAddress, isValidEthereumAddress } from '@/utils'
+
+interface AdminConsoleProps {
+  admin: ReturnType<typeof useAdminConsole>
+  onSetCreditor: (address: string, authorized: boolean) => Promise<boolean>
+  isLoading: boolean
+}
+
+const AdminConsole: React.FC<AdminConsoleProps> = ({ admin, onSetCreditor, isLoading }) => {
+  const [address, setAddress] = useState('')
+  const isAddressValid = isValidEthereumAddress(address.trim())
+
+  if (!admin.isOwner) return null
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp * 1000).toLocaleString()
+  }
+
+  const renderAddress = (value: string) => (
+    <a href={`${EXPLORER_URLS.ADDRESS}/${value}`} target="_blank" rel="noopener noreferrer">
+      {formatAddress(value)}
+    </a>
+  )
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (await onSetCreditor(address.trim(), true)) {
+      setAddress('')
+    }
+  }
+
+  const handleRemove = (creditor: string) => {
+    if (window.confirm(`Remove ${formatAddress(creditor)} from the creditor allowlist?`)) {
+      onSetCreditor(creditor, false)
+    }
+  }
+
+  const { stats } = admin
+
+  return (
+    <div className="view-container admin-console">
+      <h3>&gt; Admin Console</h3>
+
+      {admin.error && <div className="error-message">⚠️ {admin.error}</div>}
+
+      <h4>&gt; Contract Stats</h4>
+      {stats ? (
+        <div className="debt-details">
+          <div className="detail-row">
+            <span>Total Debts:</span>
+            <span>{stats.totalDebts}</span>
+          </div>
+          <div className="detail-row">
+            <span>Anonymous Debts:</span>
+            <span>{stats.anonymousDebts}</span>
+          </div>
+          <div className="detail-row">
+            <span>Resolved Debts:</span>
+            <span>{stats.resolvedDebts}</span>
+          </div>
+          <div className="detail-row">
+            <span>Total Proposals:</span>
+            <span>{stats.totalProposals}</span>
+          </div>
+          <div className="detail-row">
+            <span>Active Proposals:</span>
+            <span>{stats.activeProposals}</span>
+          </div>
+        </div>
+      ) : (
+        <p>&gt; {admin.isLoading ? 'Loading stats...' : 'Stats unavailable.'}</p>
+      )}
+      <button type="button" className="timeline-button" onClick={admin.loadStats} disabled={admin.isLoading}>
+        🔄 Refresh Stats
+      </button>
+
+      <h4>&gt; Authorized Creditors ({admin.creditors.length})</h4>
+      {admin.creditors.length === 0 ? (
+        <p>&gt; No creditor changes indexed yet.</p>
+      ) : (
+        <ul className="access-holders">
+          {admin.creditors.map((change) => (
+            <li key={change.creditor} className="detail-row">
+              <span>
+                {renderAddress(change.creditor)} · since {formatDate(change.timestamp)}
+              </span>
+              <button
+                type="button"
+                className="secondary-button"
+                onClick={() => handleRemove(change.creditor)}
+                disabled={isLoading}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="access-grant-form">
+        <div className="form-group">
+          <label htmlFor="creditorAddress">&gt; Authorize creditor:</label>
+          <input
+            type="text"
+            id="creditorAddress"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+            placeholder="0x..."
+          />
+          {address && !isAddressValid && (
+            <small>&gt; ⚠️ Not a valid Ethereum address</small>
+          )}
+        </div>
+        <button type="submit" className="secondary-button" disabled={isLoading || !isAddressValid}>
+          ➕ Add Creditor
+        </button>
+      </form>
+
+      <h4>&gt; Creditor Changes</h4>
+      {admin.creditorHistory.length === 0 ? (
+        <p>&gt; No creditor changes indexed yet.</p>
+      ) : (
+        <ul className="access-holders">
+          {admin.creditorHistory.map((change) => (
+            <li key={change.key} className="detail-row">
+              <span>
+                {change.authorized ? '➕ Authorized' : '➖ Removed'} {renderAddress(change.creditor)}
+                {' '}by {renderAddress(change.changedBy)}
+              </span>
+              <a href={`${EXPLORER_URLS.TRANSACTION}/${change.transactionHash}`} target="_blank" rel="noopener noreferrer">
+                {formatDate(change.timestamp)}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default AdminConsole
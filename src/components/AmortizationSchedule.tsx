@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react'
+import { formatCurrency } from '@/utils'
+import {
+  PAYMENT_FREQUENCIES,
+  PaymentFrequency,
+  buildAmortizationSchedule,
+  canAmortize,
+  scheduleToCsv,
+} from '@/utils/amortization'
+
+interface AmortizationScheduleProps {
+  debtId: number
+  // Decrypted terms; the schedule is built once all three are known
+  amount?: number
+  interestRate?: number
+  termDays?: number
+  createdAt: number
+  onDecryptTerms: () => void
+  isDecrypting: boolean
+}
+
+const AmortizationSchedule: React.FC<AmortizationScheduleProps> = ({
+  debtId,
+  amount,
+  interestRate,
+  termDays,
+  createdAt,
+  onDecryptTerms,
+  isDecrypting
+}) => {
+  const [frequency, setFrequency] = useState<PaymentFrequency>('monthly')
+
+  const isDecrypted = amount !== undefined && interestRate !== undefined && termDays !== undefined
+
+  const schedule = useMemo(() => {
+    if (!isDecrypted || !canAmortize(amount, interestRate, termDays)) return null
+    return buildAmortizationSchedule(amount, interestRate, termDays, frequency)
+  }, [isDecrypted, amount, interestRate, termDays, frequency])
+
+  const formatDueDate = (dueDay: number) => {
+    return new Date((createdAt + dueDay * 86400) * 1000).toLocaleDateString()
+  }
+
+  const handleExport = () => {
+    if (!schedule) return
+    const blob = new Blob([scheduleToCsv(schedule, createdAt)], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `debt-${debtId}-schedule-${frequency}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // e.g. a debt whose remaining term has run out
+  if (isDecrypted && !schedule) {
+    return (
+      <div className="amortization-schedule">
+        <p>&gt; No payments are left to schedule for these terms.</p>
+      </div>
+    )
+  }
+
+  if (!schedule) {
+    return (
+      <div className="amortization-schedule">
+        <p>&gt; Decrypt the amount, rate and term to build the payment schedule.</p>
+        <button className="decrypt-button" onClick={onDecryptTerms} disabled={isDecrypting}>
+          {isDecrypting ? '⏳ Decrypting...' : '🔒 Decrypt Terms'}
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="amortization-schedule">
+      <div className="form-group">
+        <label htmlFor={`frequency-${debtId}`}>&gt; Payment frequency:</label>
+        <select
+          id={`frequency-${debtId}`}
+          value={frequency}
+          onChange={(e) => setFrequency(e.target.value as PaymentFrequency)}
+        >
+          {(Object.keys(PAYMENT_FREQUENCIES) as PaymentFrequency[]).map((option) => (
+            <option key={option} value={option}>{PAYMENT_FREQUENCIES[option].label}</option>
+          ))}
+        </select>
+      </div>
+
+      <p>
+        &gt; {schedule.rows.length} payments of {formatCurrency(schedule.periodicPayment)} ·
+        {' '}Total interest {formatCurrency(schedule.totalInterest)} · Total paid {formatCurrency(schedule.totalPaid)}
+      </p>
+
+      <div className="schedule-table-wrapper">
+        <table className="terms-comparison">
+          <thead>
+            <tr>
+              <th>#</th>
+              <th>Due</th>
+              <th>Payment</th>
+              <th>Interest</th>
+              <th>Principal</th>
+              <th>Balance</th>
+            </tr>
+          </thead>
+          <tbody>
+            {schedule.rows.map((row) => (
+              <tr key={row.period}>
+                <td>{row.period}</td>
+                <td>{formatDueDate(row.dueDay)}</td>
+                <td>{formatCurrency(row.payment)}</td>
+                <td>{formatCurrency(row.interest)}</td>
+                <td>{formatCurrency(row.principal)}</td>
+                <td>{formatCurrency(row.balance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button className="secondary-button" onClick={handleExport}>
+        📥 Export CSV
+      </button>
+    </div>
+  )
+}
+
+export default AmortizationSchedule
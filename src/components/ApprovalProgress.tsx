@@ -0,0 +1,52 @@
+import React from 'react'
+import { ProposalParty, RestructuringProposal } from '@/types'
+import { getApprovalProgressText, getOutstandingApprovals } from '@/utils'
+
+interface ApprovalProgressProps {
+  proposal: RestructuringProposal
+  // Parties the connected account acts as for this proposal
+  viewerParties: ProposalParty[]
+  onRespond?: (proposalId: number, approve: boolean) => Promise<boolean>
+  isLoading: boolean
+}
+
+const ApprovalProgress: React.FC<ApprovalProgressProps> = ({ proposal, viewerParties, onRespond, isLoading }) => {
+  const outstanding = getOutstandingApprovals(proposal)
+  if (outstanding.length === 0) return null
+
+  const waitingOnViewer = outstanding.some((party) => viewerParties.includes(party))
+  const waitingOnOthers = outstanding.filter((party) => !viewerParties.includes(party))
+
+  return (
+    <div className={`approval-progress ${waitingOnViewer ? 'action-required' : ''}`}>
+      <p>&gt; Approvals: {getApprovalProgressText(proposal)}</p>
+      {waitingOnViewer ? (
+        <>
+          <p>&gt; 👉 This proposal is waiting on your approval.</p>
+          {onRespond && (
+            <>
+              <button
+                className="submit-button"
+                onClick={() => onRespond(proposal.id, true)}
+                disabled={isLoading}
+              >
+                ✅ Approve
+              </button>
+              <button
+                className="secondary-button"
+                onClick={() => onRespond(proposal.id, false)}
+                disabled={isLoading}
+              >
+                ❌ Reject
+              </button>
+            </>
+          )}
+        </>
+      ) : (
+        <p>&gt; ⏳ Waiting on the {waitingOnOthers.join(' and ')}.</p>
+      )}
+    </div>
+  )
+}
+
+export default ApprovalProgress
@@ -1,5 +1,9 @@
-import React, { useState } from 'react'
-import { CreateDebtForm as CreateDebtFormData } from '@/types'
+import React, { useMemo, useState } from 'react'
+import { CreateDebtForm as CreateDebtFormData, DebtPreset } from '@/types'
+import { formatDebtDescription } from '@/utils/presets'
+import { AMOUNT_RULE, RATE_RULE, TERM_RULE, hasErrors, validateCreateDebt } from '@/utils/validation'
+import DebtPresets from './DebtPresets'
+import FieldError from './FieldError'
 
 interface CreateDebtFormProps {
   onSubmit: (formData: CreateDebtFormData) => void
@@ -11,23 +15,49 @@ const CreateDebtForm: React.FC<CreateDebtFormProps> = ({ onSubmit, isLoading })
   const [interestRate, setInterestRate] = useState('')
   const [termInDays, setTermInDays] = useState('')
   const [isAnonymous, setIsAnonymous] = useState(true)
+  const [category, setCategory] = useState('')
+  const [reason, setReason] = useState('')
+  const [selectedPresetId, setSelectedPresetId] = useState<string>()
+  // Empty fields are only flagged once the user tried to submit
+  const [submitAttempted, setSubmitAttempted] = useState(false)
+
+  const formData: CreateDebtFormData = useMemo(() => ({
+    amount,
+    interestRate,
+    termDays: termInDays,
+    isAnonymous,
+    // Sealed with the debt's access key before it is stored on-chain
+    description: formatDebtDescription(category, reason)
+  }), [amount, interestRate, termInDays, isAnonymous, category, reason])
+
+  const errors = useMemo(() => validateCreateDebt(formData), [formData])
+
+  const fieldError = (field: keyof CreateDebtFormData, value: string) => {
+    return submitAttempted || value ? errors[field] : undefined
+  }
+
+  const handleSelectPreset = (preset: DebtPreset) => {
+    setAmount(preset.amount.toString())
+    setInterestRate(preset.rate.toString())
+    setTermInDays(preset.days.toString())
+    setCategory(preset.category)
+    setReason(preset.reason)
+    setSelectedPresetId(preset.id)
+  }
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    if (amount && interestRate && termInDays) {
-      onSubmit({
-        amount,
-        interestRate,
-        termDays: termInDays,
-        isAnonymous
-      })
+    setSubmitAttempted(true)
+    if (!hasErrors(errors)) {
+      onSubmit(formData)
     }
   }
 
   return (
     <div className="form-container">
       <h3>&gt; Create New Debt Record</h3>
-      <form onSubmit={handleSubmit} className="debt-form">
+      <DebtPresets onSelectPreset={handleSelectPreset} selectedPresetId={selectedPresetId} />
+      <form onSubmit={handleSubmit} className="debt-form" noValidate>
         <div className="form-group">
           <label htmlFor="amount">&gt; Debt Amount (USD):</label>
           <input
@@ -36,10 +66,12 @@ const CreateDebtForm: React.FC<CreateDebtFormProps> = ({ onSubmit, isLoading })
             value={amount}
             onChange={(e) => setAmount(e.target.value)}
             placeholder="Enter amount (e.g., 10000)"
-            min="0.01"
+            min={AMOUNT_RULE.min}
+            max={AMOUNT_RULE.max}
             step="0.01"
             required
           />
+          <FieldError error={fieldError('amount', amount)} />
         </div>
 
         <div className="form-group">
@@ -50,11 +82,12 @@ const CreateDebtForm: React.FC<CreateDebtFormProps> = ({ onSubmit, isLoading })
             value={interestRate}
             onChange={(e) => setInterestRate(e.target.value)}
             placeholder="Enter rate (e.g., 5.5)"
-            min="0"
-            max="100"
+            min={RATE_RULE.min}
+            max={RATE_RULE.max}
             step="0.01"
             required
           />
+          <FieldError error={fieldError('interestRate', interestRate)} />
         </div>
 
         <div className="form-group">
@@ -65,10 +98,33 @@ const CreateDebtForm: React.FC<CreateDebtFormProps> = ({ onSubmit, isLoading })
             value={termInDays}
             onChange={(e) => setTermInDays(e.target.value)}
             placeholder="Enter term in days (e.g., 365)"
-            min="1"
-            max="36500"
+            min={TERM_RULE.min}
+            max={TERM_RULE.max}
             required
           />
+          <FieldError error={fieldError('termDays', termInDays)} />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="category">&gt; Category (encrypted):</label>
+          <input
+            type="text"
+            id="category"
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            placeholder="e.g., Personal"
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="reason">&gt; Reason (encrypted):</label>
+          <textarea
+            id="reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="What is this debt for? Only parties with access can read it."
+            rows={3}
+          />
         </div>
 
         <div className="form-group checkbox-group">
@@ -85,7 +141,7 @@ const CreateDebtForm: React.FC<CreateDebtFormProps> = ({ onSubmit, isLoading })
         <button 
           type="submit" 
           className="submit-button"
-          disabled={isLoading || !amount || !interestRate || !termInDays}
+          disabled={isLoading || (submitAttempted && hasErrors(errors))}
         >
           {isLoading ? 'Creating Debt Record...' : '🔒 Create Encrypted Debt Record'}
         </button>
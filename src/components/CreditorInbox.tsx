@@ -0,0 +1,168 @@
+import React, { useState } from 'react'
+import { formatCurrency, formatPercentage as formatRate } from '@/utils'
+import { EncryptedField } from '@/fhe'
+import { DecryptableKind, decryptionKey } from '@/hooks/useDecryption'
+import { useCreditorInbox, CreditorInboxItem } from '@/hooks/useCreditorInbox'
+import EncryptedValue from './EncryptedValue'
+
+interface CreditorInboxProps {
+  creditor: ReturnType<typeof useCreditorInbox>
+  decryptedValues: Record<string, number>
+  decrypting: Set<string>
+  onDecrypt: (kind: DecryptableKind, id: number, field: EncryptedField) => void
+  onReview: (proposalId: number, approve: boolean, note: string, allowPublicNote?: boolean) => Promise<boolean>
+  isLoading: boolean
+}
+
+const TERM_ROWS: { field: EncryptedField; label: string }[] = [
+  { field: 'amount', label: 'Amount' },
+  { field: 'rate', label: 'Interest Rate' },
+  { field: 'term', label: 'Term' },
+]
+
+const formatDays = (days: number) => `${days} days`
+
+const FORMATTERS: Record<EncryptedField, (value: number) => string> = {
+  amount: formatCurrency,
+  rate: formatRate,
+  term: formatDays,
+}
+
+const CreditorInbox: React.FC<CreditorInboxProps> = ({
+  creditor,
+  decryptedValues,
+  decrypting,
+  onDecrypt,
+  onReview,
+  isLoading
+}) => {
+  const [notes, setNotes] = useState<Record<number, string>>({})
+  const [publicNotes, setPublicNotes] = useState<Set<number>>(new Set())
+
+  if (!creditor.isCreditor) return null
+
+  const formatDate = (timestamp: number) => {
+    return new Date(timestamp * 1000).toLocaleDateString()
+  }
+
+  const renderEncrypted = (kind: DecryptableKind, id: number, field: EncryptedField) => {
+    const key = decryptionKey(kind, id, field)
+    return (
+      <EncryptedValue
+        value={decryptedValues[key]}
+        isDecrypting={decrypting.has(key)}
+        format={FORMATTERS[field]}
+        onDecrypt={() => onDecrypt(kind, id, field)}
+      />
+    )
+  }
+
+  const togglePublicNote = (proposalId: number) => {
+    setPublicNotes((current) => {
+      const next = new Set(current)
+      if (next.has(proposalId)) next.delete(proposalId)
+      else next.add(proposalId)
+      return next
+    })
+  }
+
+  const handleReview = async (item: CreditorInboxItem, approve: boolean) => {
+    const { id } = item.proposal
+    if (await onReview(id, approve, notes[id] ?? '', publicNotes.has(id))) {
+      setNotes(({ [id]: _, ...rest }) => rest)
+    }
+  }
+
+  return (
+    <div className="view-container creditor-inbox">
+      <h3>&gt; Creditor Inbox ({creditor.inbox.length})</h3>
+      <p>&gt; Proposals waiting for a creditor decision, oldest first.</p>
+
+      {creditor.error && <div className="error-message">⚠️ {creditor.error}</div>}
+
+      {creditor.isLoading && creditor.inbox.length === 0 ? (
+        <p>&gt; Loading proposals...</p>
+      ) : creditor.inbox.length === 0 ? (
+        <div className="empty-state">
+          <p>&gt; Nothing to review. New proposals appear here as they are indexed.</p>
+        </div>
+      ) : (
+        <div className="proposals-list">
+          {creditor.inbox.map((item) => {
+            const { proposal, debt } = item
+            const note = notes[proposal.id] ?? ''
+            return (
+              <div key={proposal.id} className="proposal-item">
+                <div className="proposal-header">
+                  <span>Proposal ID: {proposal.id} · Debt ID: {proposal.debtId}</span>
+                  <span>{proposal.debtorApproved ? '✅ Debtor approved' : '⏳ Debtor pending'}</span>
+                </div>
+
+                <table className="terms-comparison">
+                  <thead>
+                    <tr>
+                      <th></th>
+                      <th>Current</th>
+                      <th>Proposed</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {TERM_ROWS.map(({ field, label }) => (
+                      <tr key={field}>
+                        <td>{label}</td>
+                        <td>{debt ? renderEncrypted('debt', debt.id, field) : '—'}</td>
+                        <td>{renderEncrypted('proposal', proposal.id, field)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <div className="proposal-details">
+                  <p>Proposed: {formatDate(proposal.proposedAt)}</p>
+                  <p>Reason: {proposal.reason}</p>
+                </div>
+
+                <div className="form-group">
+                  <label htmlFor={`reviewNote-${proposal.id}`}>&gt; Note for the debtor (optional):</label>
+                  <textarea
+                    id={`reviewNote-${proposal.id}`}
+                    value={note}
+                    onChange={(e) => setNotes((current) => ({ ...current, [proposal.id]: e.target.value }))}
+                    rows={2}
+                  />
+                  {!item.canSealNote && note.trim() && (
+                    <label>
+                      <input
+                        type="checkbox"
+                        checked={publicNotes.has(proposal.id)}
+                        onChange={() => togglePublicNote(proposal.id)}
+                      />
+                      &gt; No shared key for this proposal - send the note unencrypted (visible on-chain)
+                    </label>
+                  )}
+                </div>
+
+                <button
+                  className="submit-button"
+                  onClick={() => handleReview(item, true)}
+                  disabled={isLoading}
+                >
+                  ✅ Approve
+                </button>
+                <button
+                  className="secondary-button"
+                  onClick={() => handleReview(item, false)}
+                  disabled={isLoading}
+                >
+                  ❌ Reject
+                </button>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default CreditorInbox
@@ -1,50 +1,46 @@
 import React from 'react'
+import { DebtPreset } from '@/types'
+import { formatCurrency, formatPercentage as formatRate } from '@/utils'
+import { BUILT_IN_DEBT_PRESETS, groupPresetsByCategory, validateDebtPreset } from '@/utils/presets'
 
 interface DebtPresetsProps {
-  onTabChange: (tab: 'create' | 'view' | 'propose') => void
+  onSelectPreset: (preset: DebtPreset) => void
+  selectedPresetId?: string
 }
 
-const DebtPresets: React.FC<DebtPresetsProps> = ({ onTabChange }) => {
-  const presets = [
-    {
-      title: 'Personal Loan',
-      description: 'Standard personal loan restructuring',
-      action: () => onTabChange('create')
-    },
-    {
-      title: 'Credit Card Debt',
-      description: 'Credit card balance consolidation',
-      action: () => onTabChange('create')
-    },
-    {
-      title: 'View My Debts',
-      description: 'Check existing debt records',
-      action: () => onTabChange('view')
-    },
-    {
-      title: 'Propose Changes',
-      description: 'Submit restructuring proposal',
-      action: () => onTabChange('propose')
-    }
-  ]
+const PRESET_GROUPS = groupPresetsByCategory(BUILT_IN_DEBT_PRESETS)
 
+const DebtPresets: React.FC<DebtPresetsProps> = ({ onSelectPreset, selectedPresetId }) => {
   return (
-    <div className="debt-presets">
-      <h3>&gt; Quick Actions</h3>
-      <div className="preset-buttons">
-        {presets.map((preset, index) => (
-          <button
-            key={index}
-            className="preset-button"
-            onClick={preset.action}
-            title={preset.description}
-          >
-            {preset.title}
-          </button>
-        ))}
-      </div>
+    <div className="debt-presets presets-section">
+      <h3>&gt; Debt Presets</h3>
+      {PRESET_GROUPS.map(([category, presets]) => (
+        <div key={category} className="preset-category">
+          <h4>&gt; {category}</h4>
+          <div className="presets-grid">
+            {presets.map((preset) => {
+              const errors = validateDebtPreset(preset)
+              return (
+                <button
+                  key={preset.id}
+                  type="button"
+                  className={`preset-card ${preset.id === selectedPresetId ? 'selected' : ''}`}
+                  onClick={() => onSelectPreset(preset)}
+                  disabled={errors.length > 0}
+                  title={errors.length > 0 ? errors.join('\n') : preset.reason}
+                >
+                  <h4>{preset.name}</h4>
+                  <p>Amount: {formatCurrency(preset.amount)}</p>
+                  <p>Rate: {formatRate(preset.rate)}</p>
+                  <p>Term: {preset.days} days</p>
+                </button>
+              )
+            })}
+          </div>
+        </div>
+      ))}
     </div>
   )
 }
 
-export default DebtPresets
\ No newline at end of file
+export default DebtPresets
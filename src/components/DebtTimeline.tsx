@@ -0,0 +1,62 @@
+import React from 'react'
+import { EXPLORER_URLS, PRIVACY_LEVEL_INFO } from '@/constants'
+import { TimelineEntry, TimelineEventKind } from '@/indexer'
+import { formatAddress } from '@/utils'
+
+interface DebtTimelineProps {
+  entries: TimelineEntry[]
+}
+
+const EVENT_LABELS: Record<TimelineEventKind, string> = {
+  DEBT_CREATED: 'Debt created',
+  PROPOSAL_SUBMITTED: 'Restructuring proposed',
+  PROPOSAL_APPROVAL_RECORDED: 'Approval recorded, awaiting counterparty',
+  PROPOSAL_APPROVED: 'Proposal approved',
+  PROPOSAL_REJECTED: 'Proposal rejected',
+  PROPOSAL_EXECUTED: 'Restructuring executed',
+  DEBT_RESOLVED: 'Debt resolved',
+  DEBT_DEFAULTED: 'Debt defaulted',
+  DEBT_RESTRUCTURED: 'Debt restructured',
+  ACCESS_GRANTED: 'Privacy access granted',
+  ACCESS_REVOKED: 'Privacy access revoked',
+  KEY_ROTATED: 'Privacy key rotated, earlier grants revoked',
+  PRIVACY_CHANGED: 'Privacy level changed',
+  REVIEW_NOTE: 'Review note added',
+}
+
+const DebtTimeline: React.FC<DebtTimelineProps> = ({ entries }) => {
+  const formatDateTime = (timestamp: number) => {
+    return new Date(timestamp * 1000).toLocaleString()
+  }
+
+  if (entries.length === 0) {
+    return <p className="timeline-empty">&gt; No indexed activity for this debt yet.</p>
+  }
+
+  return (
+    <ol className="debt-timeline">
+      {entries.map((entry) => (
+        <li key={entry.key} className={`timeline-entry ${entry.kind.toLowerCase()}`}>
+          <span className="timeline-time">{formatDateTime(entry.timestamp)}</span>
+          <span className="timeline-label">
+            &gt; {EVENT_LABELS[entry.kind]}
+            {entry.proposalId !== undefined && ` (Proposal #${entry.proposalId})`}
+            {entry.user && entry.accessType && ` to ${formatAddress(entry.user)} [${entry.accessType}]`}
+            {entry.user && !entry.accessType && ` ${entry.kind === 'REVIEW_NOTE' ? 'by' : 'from'} ${formatAddress(entry.user)}`}
+            {entry.privacyLevel !== undefined && ` to ${PRIVACY_LEVEL_INFO[entry.privacyLevel]?.label ?? entry.privacyLevel}`}
+          </span>
+          <a
+            className="timeline-link"
+            href={`${EXPLORER_URLS.TRANSACTION}/${entry.transactionHash}`}
+            target="_blank"
+            rel="noopener noreferrer"
+          >
+            {formatAddress(entry.transactionHash)}
+          </a>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+export default DebtTimeline
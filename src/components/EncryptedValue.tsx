@@ -0,0 +1,22 @@
+import React from 'react'
+
+interface EncryptedValueProps {
+  value: number | undefined
+  isDecrypting: boolean
+  format: (value: number) => string
+  onDecrypt: () => void
+}
+
+const EncryptedValue: React.FC<EncryptedValueProps> = ({ value, isDecrypting, format, onDecrypt }) => {
+  if (value !== undefined) {
+    return <span className="decrypted-value">{format(value)}</span>
+  }
+
+  return (
+    <button className="decrypt-button" onClick={onDecrypt} disabled={isDecrypting}>
+      {isDecrypting ? '⏳ Decrypting...' : '🔒 Decrypt'}
+    </button>
+  )
+}
+
+export default EncryptedValue
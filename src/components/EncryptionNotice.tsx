@@ -0,0 +1,27 @@
+import React from 'react'
+import { EncryptorKind } from '@/fhe'
+import { STATUS_MESSAGES } from '@/constants'
+
+interface EncryptionNoticeProps {
+  kind: EncryptorKind
+}
+
+// Nothing to say on the fhEVM network, where terms are encrypted for real
+const EncryptionNotice: React.FC<EncryptionNoticeProps> = ({ kind }) => {
+  if (kind === 'fhevm') return null
+
+  return (
+    <div className="encryption-notice warning-message">
+      {kind === 'mock' ? (
+        <>
+          <p>&gt; ⚠️ Development encryption: terms are masked with a public pad and are NOT private.</p>
+          <p>&gt; Anyone can recover them from the transaction. Use test values only.</p>
+        </>
+      ) : (
+        <p>&gt; 🔒 {STATUS_MESSAGES.ENCRYPTION_UNAVAILABLE}</p>
+      )}
+    </div>
+  )
+}
+
+export default EncryptionNotice
@@ -0,0 +1,46 @@
+import React from 'react'
+import { FEE_TIERS, FeeQuotes, FeeTier, formatGwei } from '@/utils/fees'
+
+interface FeeTierSelectorProps {
+  feeTier: FeeTier
+  feeQuotes: FeeQuotes | null
+  feeWarning: string | null
+  onChange: (tier: FeeTier) => void
+  onRefresh: () => void
+}
+
+const TIER_LABELS: Record<FeeTier, string> = {
+  slow: '🐢 Slow',
+  normal: '🚶 Normal',
+  fast: '🚀 Fast',
+}
+
+const FeeTierSelector: React.FC<FeeTierSelectorProps> = ({ feeTier, feeQuotes, feeWarning, onChange, onRefresh }) => {
+  return (
+    <div className="fee-tier-selector">
+      <label>&gt; Transaction Speed:</label>
+      <div className="fee-tiers">
+        {FEE_TIERS.map((tier) => (
+          <button
+            key={tier}
+            type="button"
+            className={`fee-tier ${feeTier === tier ? 'active' : ''}`}
+            onClick={() => onChange(tier)}
+          >
+            <span>{TIER_LABELS[tier]}</span>
+            {feeQuotes && <small>{formatGwei(feeQuotes[tier].expectedPricePerGas)}</small>}
+          </button>
+        ))}
+        <button type="button" className="fee-refresh" onClick={onRefresh}>
+          ↻
+        </button>
+      </div>
+      {feeQuotes?.normal.type === 'legacy' && (
+        <small>&gt; This network does not support EIP-1559; using legacy gas pricing.</small>
+      )}
+      {feeWarning && <div className="warning-message">⚠️ {feeWarning}</div>}
+    </div>
+  )
+}
+
+export default FeeTierSelector
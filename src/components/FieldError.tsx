@@ -0,0 +1,12 @@
+import React from 'react'
+
+interface FieldErrorProps {
+  error?: string
+}
+
+const FieldError: React.FC<FieldErrorProps> = ({ error }) => {
+  if (!error) return null
+  return <span className="field-error" role="alert">&gt; {error}</span>
+}
+
+export default FieldError
@@ -0,0 +1,191 @@
+import React, { useState } from 'react'
+import { useKeyring } from '@/hooks/useKeyring'
+import { KeyringEntityKind } from '@/keyring'
+import { formatAddress } from '@/utils'
+
+interface KeyringPanelProps {
+  keyring: ReturnType<typeof useKeyring>
+}
+
+const KeyringPanel: React.FC<KeyringPanelProps> = ({ keyring }) => {
+  const [passphrase, setPassphrase] = useState('')
+  const [kind, setKind] = useState<KeyringEntityKind>('debt')
+  const [entityId, setEntityId] = useState('')
+  const [accessKey, setAccessKey] = useState('')
+  const [sharedBy, setSharedBy] = useState('')
+  const [backupPassphrase, setBackupPassphrase] = useState('')
+  const [backupFile, setBackupFile] = useState<File | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (await keyring.unlock(passphrase)) {
+      setPassphrase('')
+    }
+  }
+
+  const handleAddKey = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const added = await keyring.addKey(kind, parseInt(entityId), accessKey.trim(), {
+      sharedBy: sharedBy || undefined,
+    })
+    if (added) {
+      setEntityId('')
+      setAccessKey('')
+      setSharedBy('')
+    }
+  }
+
+  const handleImport = async () => {
+    if (!backupFile) return
+    const imported = await keyring.importBackup(backupFile, backupPassphrase)
+    if (imported > 0) {
+      setNotice(`Imported ${imported} access key${imported === 1 ? '' : 's'}`)
+    }
+  }
+
+  if (!keyring.isUnlocked) {
+    return (
+      <div className="form-container">
+        <h3>&gt; Access Keyring</h3>
+        <form onSubmit={handleUnlock} className="keyring-form">
+          <div className="form-group">
+            <label htmlFor="keyringPassphrase">
+              &gt; {keyring.exists ? 'Keyring passphrase:' : 'Choose a keyring passphrase:'}
+            </label>
+            <input
+              type="password"
+              id="keyringPassphrase"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              required
+            />
+          </div>
+          <button type="submit" className="submit-button" disabled={!passphrase}>
+            {keyring.exists ? '🔓 Unlock Keyring' : '🔐 Create Keyring'}
+          </button>
+        </form>
+        {keyring.error && <div className="error-message">{keyring.error}</div>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="form-container">
+      <h3>&gt; Access Keyring ({keyring.entries.length})</h3>
+
+      {keyring.entries.length === 0 ? (
+        <div className="empty-state">
+          <p>&gt; No shared access keys stored for this network.</p>
+        </div>
+      ) : (
+        <div className="keyring-entries">
+          {keyring.entries.map((entry) => (
+            <div key={`${entry.kind}-${entry.entityId}`} className="detail-row">
+              <span>
+                {entry.kind === 'debt' ? 'Debt' : 'Proposal'} #{entry.entityId}
+                {entry.sharedBy && ` · shared by ${formatAddress(entry.sharedBy)}`}
+              </span>
+              <button
+                type="button"
+                className="secondary-button"
+                onClick={() => keyring.removeKey(entry.kind, entry.entityId)}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAddKey} className="keyring-form">
+        <div className="form-group">
+          <label htmlFor="keyKind">&gt; Record type:</label>
+          <select id="keyKind" value={kind} onChange={(e) => setKind(e.target.value as KeyringEntityKind)}>
+            <option value="debt">Debt</option>
+            <option value="proposal">Proposal</option>
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="keyEntityId">&gt; Record ID:</label>
+          <input
+            type="number"
+            id="keyEntityId"
+            value={entityId}
+            onChange={(e) => setEntityId(e.target.value)}
+            min="1"
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="sharedAccessKey">&gt; Shared access key (bytes32):</label>
+          <input
+            type="text"
+            id="sharedAccessKey"
+            value={accessKey}
+            onChange={(e) => setAccessKey(e.target.value)}
+            placeholder="0x..."
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="sharedBy">&gt; Shared by (optional):</label>
+          <input
+            type="text"
+            id="sharedBy"
+            value={sharedBy}
+            onChange={(e) => setSharedBy(e.target.value)}
+            placeholder="0x..."
+          />
+        </div>
+        <button type="submit" className="submit-button" disabled={!entityId || !accessKey}>
+          ➕ Add Shared Key
+        </button>
+      </form>
+
+      <div className="keyring-backup">
+        <h4>&gt; Encrypted Backup</h4>
+        <div className="form-group">
+          <label htmlFor="backupPassphrase">&gt; Backup passphrase:</label>
+          <input
+            type="password"
+            id="backupPassphrase"
+            value={backupPassphrase}
+            onChange={(e) => setBackupPassphrase(e.target.value)}
+          />
+        </div>
+        <div className="form-group">
+          <input
+            type="file"
+            accept="application/json"
+            onChange={(e) => setBackupFile(e.target.files?.[0] || null)}
+          />
+        </div>
+        <button
+          type="button"
+          className="secondary-button"
+          onClick={() => keyring.exportBackup(backupPassphrase)}
+          disabled={!backupPassphrase}
+        >
+          ⬇️ Export Backup
+        </button>
+        <button
+          type="button"
+          className="secondary-button"
+          onClick={handleImport}
+          disabled={!backupPassphrase || !backupFile}
+        >
+          ⬆️ Import Backup
+        </button>
+        <button type="button" className="secondary-button" onClick={keyring.lock}>
+          🔒 Lock
+        </button>
+      </div>
+
+      {notice && <div className="status-message success">{notice}</div>}
+      {keyring.error && <div className="error-message">{keyring.error}</div>}
+    </div>
+  )
+}
+
+export default KeyringPanel
@@ -0,0 +1,46 @@
+import React, { useState } from 'react'
+import { PRIVACY_LEVELS, PRIVACY_LEVEL_INFO } from '@/constants'
+
+interface PrivacyLevelControlProps {
+  debtId: number
+  isAnonymous: boolean
+  onChange: (debtId: number, anonymous: boolean, revokeExistingAccess: boolean) => Promise<boolean>
+  isLoading: boolean
+}
+
+const PrivacyLevelControl: React.FC<PrivacyLevelControlProps> = ({ debtId, isAnonymous, onChange, isLoading }) => {
+  const [revokeExistingAccess, setRevokeExistingAccess] = useState(true)
+  const current = PRIVACY_LEVEL_INFO[isAnonymous ? PRIVACY_LEVELS.ANONYMOUS : PRIVACY_LEVELS.BASIC]
+  const next = PRIVACY_LEVEL_INFO[isAnonymous ? PRIVACY_LEVELS.BASIC : PRIVACY_LEVELS.ANONYMOUS]
+
+  return (
+    <div className="privacy-level-control">
+      <p>&gt; {current.label}: {current.reveals}</p>
+      <p>&gt; Switching to {next.label}: {next.reveals}</p>
+
+      {!isAnonymous && (
+        <div className="form-group checkbox-group">
+          <label>
+            <input
+              type="checkbox"
+              checked={revokeExistingAccess}
+              onChange={(e) => setRevokeExistingAccess(e.target.checked)}
+            />
+            &gt; Also rotate the privacy key so addresses that already know me lose access
+          </label>
+        </div>
+      )}
+
+      <button
+        type="button"
+        className="secondary-button"
+        onClick={() => onChange(debtId, !isAnonymous, !isAnonymous && revokeExistingAccess)}
+        disabled={isLoading}
+      >
+        {isAnonymous ? '🔓 Switch to Basic Privacy' : '🔒 Make Fully Anonymous'}
+      </button>
+    </div>
+  )
+}
+
+export default PrivacyLevelControl
@@ -1,14 +1,32 @@
-import React, { useState } from 'react'
-import { DebtRecord, ProposeRestructuringForm as ProposeRestructuringFormData } from '@/types'
+import React, { useMemo, useState } from 'react'
+import { DebtRecord, ProposeRestructuringForm as ProposeRestructuringFormData, RestructurePreset } from '@/types'
+import { formatCurrency, formatPercentage as formatRate } from '@/utils'
+import { applyRestructurePreset, createRestructurePreset } from '@/utils/presets'
+import { AMOUNT_RULE, RATE_RULE, TERM_RULE, hasErrors, proposalContextFor, validateProposal } from '@/utils/validation'
+import { getDebtActions } from '@/contract'
+import { EncryptedField } from '@/fhe'
+import { DecryptableKind, decryptedDebtTerms, decryptionKey } from '@/hooks/useDecryption'
+import { useRestructurePresets } from '@/hooks/useRestructurePresets'
+import FieldError from './FieldError'
+import RestructuringImpactPanel from './RestructuringImpactPanel'
 
 interface ProposeRestructuringFormProps {
   debts: DebtRecord[]
+  // Session-only plaintext for encrypted fields, keyed by decryptionKey()
+  decryptedValues: Record<string, number>
+  decrypting: Set<string>
+  onDecrypt: (kind: DecryptableKind, id: number, field: EncryptedField) => void
   onSubmit: (formData: ProposeRestructuringFormData) => void
   isLoading: boolean
 }
 
+const TERM_FIELDS: EncryptedField[] = ['amount', 'rate', 'term']
+
 const ProposeRestructuringForm: React.FC<ProposeRestructuringFormProps> = ({ 
   debts, 
+  decryptedValues,
+  decrypting,
+  onDecrypt,
   onSubmit, 
   isLoading 
 }) => {
@@ -17,29 +35,79 @@ const ProposeRestructuringForm: React.FC<ProposeRestructuringFormProps> = ({
   const [newRate, setNewRate] = useState('')
   const [newTerm, setNewTerm] = useState('')
   const [reason, setReason] = useState('')
+  const [presetName, setPresetName] = useState('')
+  const [presetErrors, setPresetErrors] = useState<string[]>([])
+  // Empty fields are only flagged once the user tried to submit
+  const [submitAttempted, setSubmitAttempted] = useState(false)
+  const { presets, savePreset, deletePreset } = useRestructurePresets()
 
-  const activeDebts = debts.filter(debt => debt.status === 0) // ACTIVE status
+  const activeDebts = debts.filter(debt => getDebtActions(debt.status).includes('propose'))
   const selectedDebt = activeDebts.find(debt => debt.id === parseInt(selectedDebtId))
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault()
-    if (selectedDebtId && newAmount && newRate && newTerm && reason) {
-      onSubmit({
-        selectedDebtId,
-        newAmount,
-        newRate,
-        newTerm,
-        reason
-      })
+  // Comparison, presets and validation all wait for the decrypted terms
+  const decryptedTerms = selectedDebt ? decryptedDebtTerms(decryptedValues, selectedDebt.id) : null
+  const proposalContext = useMemo(
+    () => selectedDebt && decryptedTerms ? proposalContextFor(selectedDebt, decryptedTerms) : null,
+    [selectedDebt?.id, selectedDebt?.createdAt, decryptedTerms?.amount, decryptedTerms?.interestRate, decryptedTerms?.termDays]
+  )
+  // What is left to pay under the current terms
+  const currentTerms = proposalContext?.current
+  const isDecryptingTerms = selectedDebt !== undefined &&
+    TERM_FIELDS.some((field) => decrypting.has(decryptionKey('debt', selectedDebt.id, field)))
+
+  const formData: ProposeRestructuringFormData = { selectedDebtId, newAmount, newRate, newTerm, reason }
+  const errors = validateProposal(formData, proposalContext)
+
+  const fieldError = (field: keyof ProposeRestructuringFormData) => {
+    return submitAttempted || formData[field] ? errors[field] : undefined
+  }
+
+  const presetResults = useMemo(() => {
+    if (!currentTerms) return []
+    return presets.map((preset) => ({ preset, ...applyRestructurePreset(preset, currentTerms) }))
+  }, [presets, currentTerms])
+
+  const handleDecryptTerms = () => {
+    if (!selectedDebt) return
+    for (const field of TERM_FIELDS) {
+      if (decryptedValues[decryptionKey('debt', selectedDebt.id, field)] === undefined) {
+        onDecrypt('debt', selectedDebt.id, field)
+      }
     }
   }
 
-  const formatCurrency = (cents: number) => {
-    return `$${(cents / 100).toFixed(2)}`
+  const handleApplyPreset = (proposal: Omit<ProposeRestructuringFormData, 'selectedDebtId'>) => {
+    setNewAmount(proposal.newAmount)
+    setNewRate(proposal.newRate)
+    setNewTerm(proposal.newTerm)
+    setReason(proposal.reason)
+  }
+
+  const handleSavePreset = () => {
+    if (!currentTerms) return
+    const preset = createRestructurePreset(
+      presetName,
+      currentTerms,
+      { amount: parseFloat(newAmount), interestRate: parseFloat(newRate), termDays: parseInt(newTerm) },
+      reason
+    )
+    const errors = savePreset(preset)
+    setPresetErrors(errors)
+    if (errors.length === 0) setPresetName('')
+  }
+
+  const handleDeletePreset = (preset: RestructurePreset) => {
+    if (window.confirm(`Delete the "${preset.name}" preset?`)) {
+      deletePreset(preset.id)
+    }
   }
 
-  const formatRate = (basisPoints: number) => {
-    return `${(basisPoints / 100).toFixed(2)}%`
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitAttempted(true)
+    if (!hasErrors(errors)) {
+      onSubmit(formData)
+    }
   }
 
   return (
@@ -51,7 +119,7 @@ const ProposeRestructuringForm: React.FC<ProposeRestructuringFormProps> = ({
           <p>&gt; No active debts available for restructuring. Create a debt record first!</p>
         </div>
       ) : (
-        <form onSubmit={handleSubmit} className="restructuring-form">
+        <form onSubmit={handleSubmit} className="restructuring-form" noValidate>
           <div className="form-group">
             <label htmlFor="debtId">&gt; Select Debt to Restructure:</label>
             <select
@@ -63,19 +131,60 @@ const ProposeRestructuringForm: React.FC<ProposeRestructuringFormProps> = ({
               <option value="">Choose a debt record...</option>
               {activeDebts.map((debt) => (
                 <option key={debt.id} value={debt.id}>
-                  Debt #{debt.id} - {formatCurrency(debt.amount)} at {formatRate(debt.interestRate)}
+                  Debt #{debt.id}
                 </option>
               ))}
             </select>
+            <FieldError error={fieldError('selectedDebtId')} />
           </div>
 
           {selectedDebt && (
             <div className="current-terms">
               <h4>&gt; Current Terms:</h4>
-              <div className="terms-display">
-                <p>Amount: {formatCurrency(selectedDebt.amount)}</p>
-                <p>Interest Rate: {formatRate(selectedDebt.interestRate)}</p>
-                <p>Remaining Term: {selectedDebt.remainingTerm} days</p>
+              {currentTerms ? (
+                <div className="terms-display">
+                  <p>Amount: {formatCurrency(currentTerms.amount)}</p>
+                  <p>Interest Rate: {formatRate(currentTerms.interestRate)}</p>
+                  <p>Remaining Term: {currentTerms.termDays} days</p>
+                </div>
+              ) : (
+                <div className="terms-display">
+                  <p>&gt; Decrypt the current terms to compare, apply presets and validate the proposal.</p>
+                  <button type="button" className="decrypt-button" onClick={handleDecryptTerms} disabled={isDecryptingTerms}>
+                    {isDecryptingTerms ? '⏳ Decrypting...' : '🔒 Decrypt Terms'}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {currentTerms && (
+            <div className="presets-section">
+              <h4>&gt; Restructuring Presets:</h4>
+              <div className="restructuring-presets">
+                {presetResults.map(({ preset, proposal, errors }) => (
+                  <span key={preset.id} className="preset-entry">
+                    <button
+                      type="button"
+                      className="preset-button"
+                      onClick={() => handleApplyPreset(proposal)}
+                      disabled={errors.length > 0}
+                      title={errors.length > 0 ? errors.join('\n') : `${preset.category}: ${preset.reason}`}
+                    >
+                      {preset.name}
+                    </button>
+                    {preset.custom && (
+                      <button
+                        type="button"
+                        className="preset-delete"
+                        onClick={() => handleDeletePreset(preset)}
+                        title={`Delete ${preset.name}`}
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </span>
+                ))}
               </div>
             </div>
           )}
@@ -88,10 +197,12 @@ const ProposeRestructuringForm: React.FC<ProposeRestructuringFormProps> = ({
               value={newAmount}
               onChange={(e) => setNewAmount(e.target.value)}
               placeholder="Enter new amount"
-              min="0.01"
+              min={AMOUNT_RULE.min}
+              max={AMOUNT_RULE.max}
               step="0.01"
               required
             />
+            <FieldError error={fieldError('newAmount')} />
           </div>
 
           <div className="form-group">
@@ -102,11 +213,12 @@ const ProposeRestructuringForm: React.FC<ProposeRestructuringFormProps> = ({
               value={newRate}
               onChange={(e) => setNewRate(e.target.value)}
               placeholder="Enter new rate"
-              min="0"
-              max="100"
+              min={RATE_RULE.min}
+              max={RATE_RULE.max}
               step="0.01"
               required
             />
+            <FieldError error={fieldError('newRate')} />
           </div>
 
           <div className="form-group">
@@ -117,12 +229,22 @@ const ProposeRestructuringForm: React.FC<ProposeRestructuringFormProps> = ({
               value={newTerm}
               onChange={(e) => setNewTerm(e.target.value)}
               placeholder="Enter new term in days"
-              min="1"
-              max="36500"
+              min={TERM_RULE.min}
+              max={TERM_RULE.max}
               required
             />
+            <FieldError error={fieldError('newTerm')} />
           </div>
 
+          {currentTerms && (
+            <RestructuringImpactPanel
+              current={currentTerms}
+              newAmount={newAmount}
+              newRate={newRate}
+              newTerm={newTerm}
+            />
+          )}
+
           <div className="form-group">
             <label htmlFor="reason">&gt; Reason for Restructuring:</label>
             <textarea
@@ -133,12 +255,40 @@ const ProposeRestructuringForm: React.FC<ProposeRestructuringFormProps> = ({
               rows={4}
               required
             />
+            <FieldError error={fieldError('reason')} />
           </div>
 
+          {currentTerms && (
+            <div className="form-group preset-save">
+              <label htmlFor="presetName">&gt; Save these changes as a preset:</label>
+              <input
+                type="text"
+                id="presetName"
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                placeholder="Preset name"
+                maxLength={40}
+              />
+              <button
+                type="button"
+                className="secondary-button"
+                onClick={handleSavePreset}
+                disabled={!presetName.trim() || !newAmount || !newRate || !newTerm || !reason}
+              >
+                💾 Save Preset
+              </button>
+              {presetErrors.map((error) => (
+                <p key={error} className="error-message">&gt; {error}</p>
+              ))}
+            </div>
+          )}
+
+          {errors.form && <div className="error-message">&gt; {errors.form}</div>}
+
           <button 
             type="submit" 
             className="submit-button"
-            disabled={isLoading || !selectedDebtId || !newAmount || !newRate || !newTerm || !reason}
+            disabled={isLoading || (submitAttempted && hasErrors(errors))}
           >
             {isLoading ? 'Submitting Proposal...' : '📋 Submit Restructuring Proposal'}
           </button>
@@ -0,0 +1,104 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { formatCurrency } from '@/utils'
+import { LoanTerms, ScheduleSummary, analyzeRestructuring, canAmortize } from '@/utils/amortization'
+
+interface RestructuringImpactPanelProps {
+  current: LoanTerms
+  // Raw form inputs, analyzed once they stop changing
+  newAmount: string
+  newRate: string
+  newTerm: string
+}
+
+const DEFAULT_DISCOUNT_RATE = '5'
+const ANALYSIS_DELAY_MS = 300
+
+const ROWS: { key: keyof ScheduleSummary; label: string }[] = [
+  { key: 'payment', label: 'Monthly Payment' },
+  { key: 'totalInterest', label: 'Total Interest' },
+  { key: 'totalCost', label: 'Total Cost' },
+  { key: 'presentValue', label: 'Net Present Value' },
+]
+
+const parseTerms = (amount: string, rate: string, term: string): LoanTerms | null => {
+  const terms = { amount: parseFloat(amount), interestRate: parseFloat(rate), termDays: parseInt(term) }
+  return canAmortize(terms.amount, terms.interestRate, terms.termDays) ? terms : null
+}
+
+const RestructuringImpactPanel: React.FC<RestructuringImpactPanelProps> = ({ current, newAmount, newRate, newTerm }) => {
+  const [discountRate, setDiscountRate] = useState(DEFAULT_DISCOUNT_RATE)
+  const [inputs, setInputs] = useState({ newAmount, newRate, newTerm, discountRate })
+
+  // Analyze once the inputs stop changing; a pending update is dropped on change or unmount
+  useEffect(() => {
+    const timer = setTimeout(() => setInputs({ newAmount, newRate, newTerm, discountRate }), ANALYSIS_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [newAmount, newRate, newTerm, discountRate])
+
+  const impact = useMemo(() => {
+    const proposed = parseTerms(inputs.newAmount, inputs.newRate, inputs.newTerm)
+    const rate = parseFloat(inputs.discountRate)
+    if (!proposed || !(rate >= 0) || !canAmortize(current.amount, current.interestRate, current.termDays)) return null
+    return analyzeRestructuring(current, proposed, rate)
+  }, [current, inputs])
+
+  const formatChange = (before: number, after: number) => {
+    const change = after - before
+    if (Math.abs(change) < 0.005) return '—'
+    return `${change > 0 ? '+' : '−'}${formatCurrency(Math.abs(change))}`
+  }
+
+  return (
+    <div className="impact-panel">
+      <h4>&gt; Restructuring Impact:</h4>
+
+      <div className="form-group">
+        <label htmlFor="discountRate">&gt; Discount rate for NPV (%):</label>
+        <input
+          type="number"
+          id="discountRate"
+          value={discountRate}
+          onChange={(e) => setDiscountRate(e.target.value)}
+          min="0"
+          step="0.1"
+        />
+      </div>
+
+      {!impact ? (
+        <p>&gt; Enter the new amount, rate and term to compare them with the current terms.</p>
+      ) : (
+        <>
+          <table className="terms-comparison">
+            <thead>
+              <tr>
+                <th></th>
+                <th>Current</th>
+                <th>Proposed</th>
+                <th>Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map(({ key, label }) => (
+                <tr key={key}>
+                  <td>{label}</td>
+                  <td>{formatCurrency(impact.current[key])}</td>
+                  <td>{formatCurrency(impact.proposed[key])}</td>
+                  <td>{formatChange(impact.current[key], impact.proposed[key])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {impact.lowerPaymentHigherCost && (
+            <div className="impact-warning">
+              &gt; ⚠️ The monthly payment drops, but the debt costs{' '}
+              {formatCurrency(impact.proposed.totalCost - impact.current.totalCost)} more over its life.
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default RestructuringImpactPanel
@@ -0,0 +1,31 @@
+import React from 'react'
+import { ContractRevertError } from '@/contract'
+
+interface SimulationNoticeProps {
+  error: ContractRevertError | null
+  allowFailedSimulation: boolean
+  onAllowChange: (allow: boolean) => void
+}
+
+const SimulationNotice: React.FC<SimulationNoticeProps> = ({ error, allowFailedSimulation, onAllowChange }) => {
+  if (!error) return null
+
+  return (
+    <div className="simulation-notice">
+      <p>&gt; ⚠️ Simulation failed: {error.message}</p>
+      {error.hint && <p>&gt; 💡 {error.hint}</p>}
+      <div className="form-group checkbox-group">
+        <label>
+          <input
+            type="checkbox"
+            checked={allowFailedSimulation}
+            onChange={(e) => onAllowChange(e.target.checked)}
+          />
+          &gt; Send my next transaction anyway (it will likely fail and still cost gas)
+        </label>
+      </div>
+    </div>
+  )
+}
+
+export default SimulationNotice
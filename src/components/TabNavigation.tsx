@@ -1,17 +1,25 @@
 import React from 'react'
 
+export type NavigationTab = 'create' | 'view' | 'propose' | 'stats' | 'admin'
+
 interface TabNavigationProps {
-  activeTab: 'create' | 'view' | 'propose'
-  onTabChange: (tab: 'create' | 'view' | 'propose') => void
+  activeTab: NavigationTab
+  onTabChange: (tab: NavigationTab) => void
   debtCount: number
+  // The admin route is listed only for the contract owner
+  showAdmin?: boolean
 }
 
-const TabNavigation: React.FC<TabNavigationProps> = ({ activeTab, onTabChange, debtCount }) => {
-  const tabs = [
+const TabNavigation: React.FC<TabNavigationProps> = ({ activeTab, onTabChange, debtCount, showAdmin = false }) => {
+  const tabs: { id: NavigationTab; label: string; icon: string }[] = [
     { id: 'create', label: 'Create Debt', icon: '📝' },
     { id: 'view', label: `View Debts (${debtCount})`, icon: '📋' },
-    { id: 'propose', label: 'Propose Restructuring', icon: '🔄' }
-  ] as const
+    { id: 'propose', label: 'Propose Restructuring', icon: '🔄' },
+    { id: 'stats', label: 'Statistics', icon: '📈' }
+  ]
+  if (showAdmin) {
+    tabs.push({ id: 'admin', label: 'Admin', icon: '🛡️' })
+  }
 
   return (
     <div className="tab-navigation">
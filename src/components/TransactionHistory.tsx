@@ -0,0 +1,76 @@
+import React from 'react'
+import { TrackedTransaction, TrackedTransactionStatus } from '@/types'
+import { EXPLORER_URLS } from '@/constants'
+import { isRetryable } from '@/hooks/useTransactionManager'
+import { formatAddress } from '@/utils'
+
+interface TransactionHistoryProps {
+  transactions: TrackedTransaction[]
+  onRetry: (id: string) => void
+  onClear: () => void
+  isLoading: boolean
+}
+
+const STATUS_LABELS: Record<TrackedTransactionStatus, string> = {
+  pending: '⏳ Pending',
+  confirmed: '✅ Confirmed',
+  failed: '❌ Failed',
+  replaced: '🔁 Replaced',
+  cancelled: '🚫 Cancelled',
+  timeout: '⌛ Still pending',
+}
+
+const TransactionHistory: React.FC<TransactionHistoryProps> = ({ transactions, onRetry, onClear, isLoading }) => {
+  const formatTime = (timestamp: number) => {
+    return new Date(timestamp).toLocaleString()
+  }
+
+  return (
+    <div className="transaction-history">
+      <h3>&gt; Transactions ({transactions.length})</h3>
+
+      {transactions.length === 0 ? (
+        <p>&gt; No transactions submitted from this browser yet.</p>
+      ) : (
+        <>
+          <ul className="transaction-list">
+            {transactions.map((tx) => (
+              <li key={tx.id} className={`transaction-item ${tx.status}`}>
+                <div className="transaction-header">
+                  <span>{tx.description}</span>
+                  <span className="transaction-status">{STATUS_LABELS[tx.status]}</span>
+                </div>
+                <div className="transaction-details">
+                  <span>{formatTime(tx.submittedAt)}</span>
+                  {tx.hash ? (
+                    <a href={`${EXPLORER_URLS.TRANSACTION}/${tx.hash}`} target="_blank" rel="noopener noreferrer">
+                      {formatAddress(tx.hash)}
+                    </a>
+                  ) : (
+                    <span>Not submitted</span>
+                  )}
+                  {tx.replacedBy && (
+                    <a href={`${EXPLORER_URLS.TRANSACTION}/${tx.replacedBy}`} target="_blank" rel="noopener noreferrer">
+                      → {formatAddress(tx.replacedBy)}
+                    </a>
+                  )}
+                </div>
+                {tx.error && <p className="transaction-error">&gt; {tx.error}</p>}
+                {isRetryable(tx) && (
+                  <button className="retry-button" onClick={() => onRetry(tx.id)} disabled={isLoading}>
+                    Retry
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          <button className="clear-button" onClick={onClear} disabled={isLoading}>
+            Clear Finished
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default TransactionHistory
@@ -0,0 +1,140 @@
+import React, { useState } from 'react'
+import { CommitmentKind } from '@/contract'
+import { useTermVerification, isVerified, TermScheme } from '@/hooks/useTermVerification'
+
+interface VerifyTermsPanelProps {
+  verification: ReturnType<typeof useTermVerification>
+}
+
+const SCHEME_LABELS: Record<TermScheme, string> = {
+  commitment: 'privacy-hash commitment',
+  'mock-ciphertext': 'local mock ciphertext',
+  ciphertext: 'FHE ciphertext',
+}
+
+const VerifyTermsPanel: React.FC<VerifyTermsPanelProps> = ({ verification }) => {
+  const [kind, setKind] = useState<CommitmentKind>('debt')
+  const [recordId, setRecordId] = useState('')
+  const [amount, setAmount] = useState('')
+  const [interestRate, setInterestRate] = useState('')
+  const [termDays, setTermDays] = useState('')
+  const [submitter, setSubmitter] = useState('')
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault()
+    await verification.verify({
+      kind,
+      id: parseInt(recordId),
+      amount: parseFloat(amount),
+      interestRate: parseFloat(interestRate),
+      termDays: parseInt(termDays),
+      submitter: submitter.trim() || undefined,
+    })
+  }
+
+  const { result } = verification
+
+  return (
+    <div className="form-container">
+      <h3>&gt; Verify Terms</h3>
+      <p>&gt; Check the terms you were told against the on-chain record. Nothing is published.</p>
+      <p>&gt; A restructured debt holds the terms of the proposal that restructured it.</p>
+
+      <form onSubmit={handleVerify} className="verify-terms-form">
+        <div className="form-group">
+          <label htmlFor="verifyKind">&gt; Record type:</label>
+          <select id="verifyKind" value={kind} onChange={(e) => setKind(e.target.value as CommitmentKind)}>
+            <option value="debt">Debt</option>
+            <option value="proposal">Proposal</option>
+          </select>
+        </div>
+        <div className="form-group">
+          <label htmlFor="verifyRecordId">&gt; Record ID:</label>
+          <input
+            type="number"
+            id="verifyRecordId"
+            value={recordId}
+            onChange={(e) => setRecordId(e.target.value)}
+            min="1"
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="verifyAmount">&gt; Stated amount (USD):</label>
+          <input
+            type="number"
+            id="verifyAmount"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            step="0.01"
+            min="0.01"
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="verifyRate">&gt; Stated interest rate (%):</label>
+          <input
+            type="number"
+            id="verifyRate"
+            value={interestRate}
+            onChange={(e) => setInterestRate(e.target.value)}
+            step="0.01"
+            min="0"
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="verifyTerm">&gt; Stated term (days):</label>
+          <input
+            type="number"
+            id="verifyTerm"
+            value={termDays}
+            onChange={(e) => setTermDays(e.target.value)}
+            min="1"
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="verifySubmitter">&gt; Debtor / proposer address (fully anonymous records only):</label>
+          <input
+            type="text"
+            id="verifySubmitter"
+            value={submitter}
+            onChange={(e) => setSubmitter(e.target.value)}
+            placeholder="0x..."
+          />
+        </div>
+        <button type="submit" className="submit-button" disabled={verification.isVerifying}>
+          {verification.isVerifying ? '⏳ Verifying...' : '🔍 Verify Terms'}
+        </button>
+      </form>
+
+      {result && (
+        <div className={`verify-result ${isVerified(result) ? 'verified' : 'unverified'}`}>
+          <p>
+            &gt; {result.kind === 'debt' ? 'Debt' : 'Proposal'} #{result.id} stores a {SCHEME_LABELS[result.scheme]}.
+          </p>
+          {result.scheme === 'ciphertext' ? (
+            <p>&gt; ⚠️ FHE ciphertexts are randomized and cannot be matched. Ask the debtor for decryption access instead.</p>
+          ) : (
+            <>
+              <p>&gt; Amount: {result.fields.amount ? '✅ matches' : '❌ does not match'}</p>
+              <p>&gt; Interest rate: {result.fields.rate ? '✅ matches' : '❌ does not match'}</p>
+              <p>&gt; Term: {result.fields.term ? '✅ matches' : '❌ does not match'}</p>
+              {result.confirmedOnChain !== null && (
+                <p>
+                  &gt; Contract integrity check: {result.confirmedOnChain ? '✅ confirmed' : '❌ rejected'}
+                </p>
+              )}
+              <p>&gt; {isVerified(result) ? '🔐 The stated terms match the record.' : '⚠️ The stated terms do not match the record.'}</p>
+            </>
+          )}
+        </div>
+      )}
+
+      {verification.error && <div className="error-message">{verification.error}</div>}
+    </div>
+  )
+}
+
+export default VerifyTermsPanel
@@ -1,31 +1,220 @@
-import React from 'react'
-import { DebtRecord, RestructuringProposal, DebtStatus, ProposalStatus } from '@/types'
+import React, { useState } from 'react'
+import { DebtRecord, RestructuringProposal, DebtStatus, ProposalParty } from '@/types'
+import { formatCurrency, formatPercentage as formatRate, getOutstandingApprovals } from '@/utils'
+import { IndexedDebt, IndexedProposal, Projection, buildDebtTimeline, selectTermRevisions } from '@/indexer'
+import {
+  getDebtActions,
+  getDebtStatusInfo,
+  getProposalActions,
+  getProposalStatusInfo,
+  remainingTermDays,
+} from '@/contract'
+import { EncryptedField } from '@/fhe'
+import { DecryptableKind, decryptionKey } from '@/hooks/useDecryption'
+import { parseDebtDescription } from '@/utils/presets'
+import { isSealedText } from '@/utils/accessKeys'
+import AccessManager from './AccessManager'
+import AmortizationSchedule from './AmortizationSchedule'
+import ApprovalProgress from './ApprovalProgress'
+import DebtTimeline from './DebtTimeline'
+import PrivacyLevelControl from './PrivacyLevelControl'
+import EncryptedValue from './EncryptedValue'
 
 interface ViewDebtsProps {
   debts: DebtRecord[]
   proposals: RestructuringProposal[]
+  // Known from contract events but not yet loaded from the views
+  pendingDebts?: IndexedDebt[]
+  pendingProposals?: IndexedProposal[]
+  // Indexed contract events, used for the per-debt activity timeline
+  projection?: Projection
+  // Session-only plaintext for encrypted fields, keyed by decryptionKey()
+  decryptedValues: Record<string, number>
+  decrypting: Set<string>
+  decryptionError?: string | null
+  onDecrypt: (kind: DecryptableKind, id: number, field: EncryptedField) => void
   onMarkResolved: (debtId: number) => void
+  // Access and privacy management for debts the connected account owns
+  account?: string | null
+  onGrantAccess?: (debtId: number, address: string) => Promise<boolean>
+  onRevokeAccess?: (debtId: number, address: string) => Promise<boolean>
+  onRotateAccessKey?: (debtId: number) => Promise<boolean>
+  onShareKey?: (debtId: number) => Promise<string | null>
+  onVerifyAccess?: (debtId: number, address: string) => Promise<boolean | null>
+  onSetPrivacyMode?: (debtId: number, anonymous: boolean, revokeExistingAccess: boolean) => Promise<boolean>
+  // Approval prompts for proposals waiting on the connected account
+  isCreditor?: boolean
+  onRespondToProposal?: (proposalId: number, approve: boolean) => Promise<boolean>
+  onExecuteProposal?: (proposalId: number) => Promise<boolean>
   isLoading: boolean
 }
 
-const ViewDebts: React.FC<ViewDebtsProps> = ({ debts, proposals, onMarkResolved, isLoading }) => {
-  const formatCurrency = (cents: number) => {
-    return `$${(cents / 100).toFixed(2)}`
+const ViewDebts: React.FC<ViewDebtsProps> = ({
+  debts,
+  proposals,
+  pendingDebts = [],
+  pendingProposals = [],
+  projection,
+  decryptedValues,
+  decrypting,
+  decryptionError,
+  onDecrypt,
+  onMarkResolved,
+  account,
+  onGrantAccess,
+  onRevokeAccess,
+  onRotateAccessKey,
+  onShareKey,
+  onVerifyAccess,
+  onSetPrivacyMode,
+  isCreditor = false,
+  onRespondToProposal,
+  onExecuteProposal,
+  isLoading
+}) => {
+  const [openTimelines, setOpenTimelines] = useState<Set<number>>(new Set())
+  const [openHistory, setOpenHistory] = useState<number | null>(null)
+  const [openSchedule, setOpenSchedule] = useState<number | null>(null)
+  const [openAccess, setOpenAccess] = useState<number | null>(null)
+
+  // Fully anonymous debts report no debtor; the creation event still names the creator
+  const isOwnDebt = (debt: DebtRecord) => {
+    if (!account) return false
+    const debtor = projection?.debts[debt.id]?.debtor ?? debt.debtor
+    return debtor.toLowerCase() === account.toLowerCase()
+  }
+
+  const debtStatusOf = (debtId: number): DebtStatus | undefined => {
+    return debts.find((debt) => debt.id === debtId)?.status ?? projection?.debts[debtId]?.status
   }
 
-  const formatRate = (basisPoints: number) => {
-    return `${(basisPoints / 100).toFixed(2)}%`
+  // A proposal's debtor is the owner of the debt it restructures
+  const viewerParties = (proposal: RestructuringProposal): ProposalParty[] => {
+    const parties: ProposalParty[] = []
+    const debt = debts.find((d) => d.id === proposal.debtId)
+    const debtor = projection?.debts[proposal.debtId]?.debtor ?? debt?.debtor
+    if (account && debtor?.toLowerCase() === account.toLowerCase()) parties.push('debtor')
+    if (isCreditor) parties.push('creditor')
+    return parties
+  }
+
+  const awaitingViewer = proposals.filter((proposal) => {
+    const parties = viewerParties(proposal)
+    return getOutstandingApprovals(proposal).some((party) => parties.includes(party))
+  })
+
+  const canManageAccess = (debt: DebtRecord) => {
+    return Boolean(onGrantAccess && onRevokeAccess && onRotateAccessKey && isOwnDebt(debt))
+  }
+
+  const toggleTimeline = (debtId: number) => {
+    setOpenTimelines((current) => {
+      const next = new Set(current)
+      if (next.has(debtId)) next.delete(debtId)
+      else next.add(debtId)
+      return next
+    })
   }
 
   const formatDate = (timestamp: number) => {
     return new Date(timestamp * 1000).toLocaleDateString()
   }
 
+  const formatDays = (days: number) => `${days} days`
+
+  const termRows: { field: EncryptedField; label: string; format: (value: number) => string }[] = [
+    { field: 'amount', label: 'Amount', format: formatCurrency },
+    { field: 'rate', label: 'Interest Rate', format: formatRate },
+    { field: 'term', label: 'Term', format: formatDays },
+  ]
+
+  const renderEncrypted = (
+    kind: DecryptableKind,
+    id: number,
+    field: EncryptedField,
+    format: (value: number) => string
+  ) => {
+    const key = decryptionKey(kind, id, field)
+    return (
+      <EncryptedValue
+        value={decryptedValues[key]}
+        isDecrypting={decrypting.has(key)}
+        format={format}
+        onDecrypt={() => onDecrypt(kind, id, field)}
+      />
+    )
+  }
+
+  const decryptedTerm = (debtId: number, field: EncryptedField) => decryptedValues[decryptionKey('debt', debtId, field)]
+
+  const decryptDebtTerms = (debtId: number) => {
+    for (const { field } of termRows) {
+      if (decryptedTerm(debtId, field) === undefined) onDecrypt('debt', debtId, field)
+    }
+  }
+
+  // Executed proposals, each column holding the terms that proposal replaced
+  const termRevisions = (debtId: number) => (projection ? selectTermRevisions(projection, debtId) : [])
+
+  const renderTermHistory = (debt: DebtRecord) => {
+    const revisions = termRevisions(debt.id)
+    return (
+      <table className="terms-comparison">
+        <thead>
+          <tr>
+            <th></th>
+            {revisions.map((revision) => (
+              <th key={revision.key}>Before #{revision.entityId} ({formatDate(revision.timestamp)})</th>
+            ))}
+            <th>Current</th>
+          </tr>
+        </thead>
+        <tbody>
+          {termRows.map(({ field, label, format }) => (
+            <tr key={field}>
+              <td>{label}</td>
+              {revisions.map((revision) => (
+                <td key={revision.key}>{renderEncrypted('replaced', revision.entityId, field, format)}</td>
+              ))}
+              <td>{renderEncrypted('debt', debt.id, field, format)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )
+  }
+
+  // Opened with the debt's access key when the records were loaded; text still
+  // sealed at this point belongs to a key we do not hold and is never shown raw
+  const renderDescription = (description: string) => {
+    const { category, reason } = isSealedText(description)
+      ? { category: undefined, reason: '🔐 Encrypted' }
+      : parseDebtDescription(description)
+    return (
+      <>
+        {category && (
+          <div className="detail-row">
+            <span>Category:</span>
+            <span>{category}</span>
+          </div>
+        )}
+        {reason && (
+          <div className="detail-row">
+            <span>Reason:</span>
+            <span>{reason}</span>
+          </div>
+        )}
+      </>
+    )
+  }
+
   return (
     <div className="view-container">
-      <h3>&gt; Your Debt Records ({debts.length})</h3>
+      <h3>&gt; Your Debt Records ({debts.length + pendingDebts.length})</h3>
+
+      {decryptionError && <div className="error-message">⚠️ {decryptionError}</div>}
       
-      {debts.length === 0 ? (
+      {debts.length + pendingDebts.length === 0 ? (
         <div className="empty-state">
           <p>&gt; No debt records found. Create your first debt record to get started!</p>
         </div>
@@ -35,28 +224,33 @@ const ViewDebts: React.FC<ViewDebtsProps> = ({ debts, proposals, onMarkResolved,
             <div key={debt.id} className="debt-item">
               <div className="debt-header">
                 <span className="debt-id">Debt ID: {debt.id}</span>
-                <span className={`debt-status ${DebtStatus[debt.status].toLowerCase()}`}>
-                  {DebtStatus[debt.status]}
+                <span className={`debt-status ${getDebtStatusInfo(debt.status).className}`}>
+                  {getDebtStatusInfo(debt.status).name}
                 </span>
               </div>
               
               <div className="debt-details">
                 <div className="detail-row">
                   <span>Amount:</span>
-                  <span className="highlight">{formatCurrency(debt.amount)}</span>
+                  <span className="highlight">{renderEncrypted('debt', debt.id, 'amount', formatCurrency)}</span>
                 </div>
                 <div className="detail-row">
                   <span>Interest Rate:</span>
-                  <span>{formatRate(debt.interestRate)}</span>
+                  <span>{renderEncrypted('debt', debt.id, 'rate', formatRate)}</span>
                 </div>
                 <div className="detail-row">
                   <span>Term:</span>
-                  <span>{debt.originalTerm} days</span>
+                  <span>{renderEncrypted('debt', debt.id, 'term', formatDays)}</span>
                 </div>
                 <div className="detail-row">
                   <span>Remaining:</span>
-                  <span>{debt.remainingTerm} days</span>
+                  <span>
+                    {renderEncrypted('debt', debt.id, 'term', (term) =>
+                      formatDays(remainingTermDays(debt.createdAt, term))
+                    )}
+                  </span>
                 </div>
+                {debt.description && renderDescription(debt.description)}
                 <div className="detail-row">
                   <span>Created:</span>
                   <span>{formatDate(debt.createdAt)}</span>
@@ -67,7 +261,16 @@ const ViewDebts: React.FC<ViewDebtsProps> = ({ debts, proposals, onMarkResolved,
                 </div>
               </div>
 
-              {debt.status === DebtStatus.ACTIVE && (
+              {onSetPrivacyMode && isOwnDebt(debt) && (
+                <PrivacyLevelControl
+                  debtId={debt.id}
+                  isAnonymous={debt.isAnonymous}
+                  onChange={onSetPrivacyMode}
+                  isLoading={isLoading}
+                />
+              )}
+
+              {getDebtActions(debt.status).includes('resolve') && (
                 <button 
                   className="resolve-button"
                   onClick={() => onMarkResolved(debt.id)}
@@ -76,30 +279,149 @@ const ViewDebts: React.FC<ViewDebtsProps> = ({ debts, proposals, onMarkResolved,
                   Mark as Resolved
                 </button>
               )}
+
+              {projection && (
+                <button className="timeline-button" onClick={() => toggleTimeline(debt.id)}>
+                  {openTimelines.has(debt.id) ? 'Hide History' : 'Show History'}
+                </button>
+              )}
+
+              {canManageAccess(debt) && (
+                <button
+                  className="timeline-button"
+                  onClick={() => setOpenAccess(openAccess === debt.id ? null : debt.id)}
+                >
+                  {openAccess === debt.id ? 'Hide Access' : 'Manage Access'}
+                </button>
+              )}
+
+              <button
+                className="timeline-button"
+                onClick={() => setOpenSchedule(openSchedule === debt.id ? null : debt.id)}
+              >
+                {openSchedule === debt.id ? 'Hide Schedule' : 'Payment Schedule'}
+              </button>
+
+              {openSchedule === debt.id && (
+                <AmortizationSchedule
+                  debtId={debt.id}
+                  amount={decryptedTerm(debt.id, 'amount')}
+                  interestRate={decryptedTerm(debt.id, 'rate')}
+                  termDays={decryptedTerm(debt.id, 'term')}
+                  createdAt={debt.createdAt}
+                  onDecryptTerms={() => decryptDebtTerms(debt.id)}
+                  isDecrypting={termRows.some(({ field }) => decrypting.has(decryptionKey('debt', debt.id, field)))}
+                />
+              )}
+
+              {termRevisions(debt.id).length > 0 && (
+                <button
+                  className="timeline-button"
+                  onClick={() => setOpenHistory(openHistory === debt.id ? null : debt.id)}
+                >
+                  {openHistory === debt.id ? 'Hide Term History' : 'Term History'}
+                </button>
+              )}
+
+              {openHistory === debt.id && renderTermHistory(debt)}
+
+              {projection && openTimelines.has(debt.id) && (
+                <DebtTimeline entries={buildDebtTimeline(projection, debt.id)} />
+              )}
+
+              {canManageAccess(debt) && openAccess === debt.id && (
+                <AccessManager
+                  debtId={debt.id}
+                  projection={projection}
+                  onGrant={onGrantAccess!}
+                  onRevoke={onRevokeAccess!}
+                  onRotate={onRotateAccessKey!}
+                  onVerify={onVerifyAccess}
+                  onShareKey={onShareKey}
+                  isLoading={isLoading}
+                />
+              )}
+            </div>
+          ))}
+          {pendingDebts.map((debt) => (
+            <div key={`pending-${debt.id}`} className="debt-item pending">
+              <div className="debt-header">
+                <span className="debt-id">Debt ID: {debt.id}</span>
+                <span className={`debt-status ${getDebtStatusInfo(debt.status).className}`}>
+                  {getDebtStatusInfo(debt.status).name}
+                </span>
+              </div>
+              <div className="debt-details">
+                <div className="detail-row">
+                  <span>Created:</span>
+                  <span>{formatDate(debt.createdAt)}</span>
+                </div>
+                <div className="detail-row">
+                  <span>Privacy:</span>
+                  <span>{debt.isFullyAnonymous ? '🔒 Anonymous' : '🔓 Public'}</span>
+                </div>
+                <p>&gt; Encrypted terms not loaded yet...</p>
+              </div>
             </div>
           ))}
         </div>
       )}
 
-      {proposals.length > 0 && (
+      {proposals.length + pendingProposals.length > 0 && (
         <div className="proposals-section">
-          <h3>&gt; Active Proposals ({proposals.length})</h3>
+          <h3>&gt; Active Proposals ({proposals.length + pendingProposals.length})</h3>
+          {awaitingViewer.length > 0 && (
+            <div className="approval-prompt">
+              &gt; 👉 {awaitingViewer.length} proposal{awaitingViewer.length === 1 ? ' is' : 's are'} waiting on your approval
+              {' '}(#{awaitingViewer.map((proposal) => proposal.id).join(', #')})
+            </div>
+          )}
           <div className="proposals-list">
             {proposals.map((proposal) => (
               <div key={proposal.id} className="proposal-item">
                 <div className="proposal-header">
                   <span>Proposal ID: {proposal.id}</span>
-                  <span className={`proposal-status ${ProposalStatus[proposal.status].toLowerCase()}`}>
-                    {ProposalStatus[proposal.status]}
+                  <span className={`proposal-status ${getProposalStatusInfo(proposal.status).className}`}>
+                    {getProposalStatusInfo(proposal.status).name}
                   </span>
                 </div>
                 <div className="proposal-details">
                   <p>Debt ID: {proposal.debtId}</p>
-                  <p>New Amount: {formatCurrency(proposal.newAmount)}</p>
-                  <p>New Rate: {formatRate(proposal.newRate)}</p>
-                  <p>New Term: {proposal.newTerm} days</p>
+                  <p>New Amount: {renderEncrypted('proposal', proposal.id, 'amount', formatCurrency)}</p>
+                  <p>New Rate: {renderEncrypted('proposal', proposal.id, 'rate', formatRate)}</p>
+                  <p>New Term: {renderEncrypted('proposal', proposal.id, 'term', formatDays)}</p>
                   <p>Reason: {proposal.reason}</p>
                 </div>
+                <ApprovalProgress
+                  proposal={proposal}
+                  viewerParties={viewerParties(proposal)}
+                  onRespond={onRespondToProposal}
+                  isLoading={isLoading}
+                />
+                {onExecuteProposal && getProposalActions(proposal.status, debtStatusOf(proposal.debtId)).includes('execute') && (
+                  <button
+                    className="submit-button"
+                    onClick={() => onExecuteProposal(proposal.id)}
+                    disabled={isLoading}
+                  >
+                    🚀 Execute Restructuring
+                  </button>
+                )}
+              </div>
+            ))}
+            {pendingProposals.map((proposal) => (
+              <div key={`pending-${proposal.id}`} className="proposal-item pending">
+                <div className="proposal-header">
+                  <span>Proposal ID: {proposal.id}</span>
+                  <span className={`proposal-status ${getProposalStatusInfo(proposal.status).className}`}>
+                    {getProposalStatusInfo(proposal.status).name}
+                  </span>
+                </div>
+                <div className="proposal-details">
+                  <p>Debt ID: {proposal.debtId}</p>
+                  <p>Proposed: {formatDate(proposal.proposedAt)}</p>
+                  <p>&gt; Encrypted terms not loaded yet...</p>
+                </div>
               </div>
             ))}
           </div>
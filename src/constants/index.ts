@@ -1,7 +1,11 @@
 // Real Blockchain Configuration for Anonymous Debt Restructuring Platform
 
-// IMPORTANT: Update this with your deployed contract address
-export const CONTRACT_ADDRESS = '0x14e09216003ca55Bbe69884A9D27A52c584fE890' // AnonymousDebtManager FHE contract
+// Written to .env.local by scripts/deploy.js. The earlier deployment at 0x14e09216003ca55Bbe69884A9D27A52c584fE890
+// predates the encrypted-input functions and the events the indexer reads, so it is not used as a fallback.
+export const CONTRACT_ADDRESS: string = import.meta.env.VITE_CONTRACT_ADDRESS ?? ''
+
+// Block the contract was deployed in - the event indexer scans from here
+export const CONTRACT_DEPLOYMENT_BLOCK = Number(import.meta.env.VITE_CONTRACT_DEPLOYMENT_BLOCK ?? 0)
 
 // Real Sepolia Network Configuration
 export const SEPOLIA_CHAIN_ID = '0xaa36a7' // 11155111 in hex
@@ -46,70 +50,32 @@ export const FHEVM_CONFIG = {
   iconUrls: ['https://zama.ai/favicon.ico'],
 }
 
-// AnonymousDebtManager FHE contract ABI with anonymous debt restructuring functionality
-export const CONTRACT_ABI = [
-  // Anonymous Debt Management Functions
-  'function createAnonymousDebt(uint256 amount, uint256 interestRate, uint256 termDays, bytes32 accessKey) external returns (uint256)',
-  'function proposeAnonymousRestructuring(uint256 debtId, uint256 newAmount, uint256 newInterestRate, uint256 newTermDays, string calldata reason, bytes32 accessKey) external returns (uint256)',
-  'function processAnonymousProposal(uint256 proposalId, bool approve, bytes32 accessKey) external',
-  'function finalizeAnonymousDebt(uint256 debtId, bytes32 accessKey) external',
-  'function enableAnonymousMode(uint256 debtId, bytes32 newAccessKey) external',
-  'function disableAnonymousMode(uint256 debtId, bytes32 accessKey) external',
-  
-  // Privacy and Access Management
-  'function grantAnonymousAccess(uint256 debtId, address user, bytes32 accessKey) external',
-  'function revokeAnonymousAccess(uint256 debtId, address user, bytes32 accessKey) external',
-  'function updateAnonymousAccessKey(uint256 debtId, bytes32 oldKey, bytes32 newKey) external',
-  'function verifyAnonymousAccess(uint256 debtId, address user, bytes32 accessKey) external view returns (bool)',
-  
-  // FHE-Style Encrypted Data Functions
-  'function getEncryptedDebtData(uint256 debtId, bytes32 accessKey) external view returns (bytes32, bytes32, bytes32)',
-  'function getEncryptedProposalData(uint256 proposalId, bytes32 accessKey) external view returns (bytes32, bytes32, bytes32)',
-  'function verifyEncryptedAmount(uint256 debtId, bytes32 expectedHash, bytes32 accessKey) external view returns (bool)',
-  'function verifyEncryptedRate(uint256 debtId, bytes32 expectedHash, bytes32 accessKey) external view returns (bool)',
-  
-  // Anonymous View Functions (Privacy Protected)
-  'function getAnonymousDebtInfo(uint256 debtId, bytes32 accessKey) external view returns (bytes32, bytes32, bytes32, uint256, uint256, uint8, bool)',
-  'function getAnonymousProposalInfo(uint256 proposalId, bytes32 accessKey) external view returns (uint256, bytes32, bytes32, bytes32, uint256, uint8, bool, string)',
-  'function getUserAnonymousDebts(address user, bytes32 accessKey) external view returns (uint256[])',
-  'function getUserAnonymousProposals(address user, bytes32 accessKey) external view returns (uint256[])',
-  
-  // Public Statistics (Non-Identifying)
-  'function getTotalAnonymousDebts() external view returns (uint256)',
-  'function getTotalAnonymousProposals() external view returns (uint256)',
-  'function getAnonymousDebtCount() external view returns (uint256)',
-  'function getResolvedAnonymousCount() external view returns (uint256)',
-  
-  // Standard Functions
-  'function owner() external view returns (address)',
-  'function nextDebtId() external view returns (uint256)',
-  'function nextProposalId() external view returns (uint256)',
-  'function anonymousMode() external view returns (bool)',
-  
-  // Anonymous Events (Privacy-First)
-  'event AnonymousDebtCreated(uint256 indexed debtId, bytes32 indexed encryptedDebtor, bytes32 encryptedAmount, bytes32 encryptedRate, uint256 timestamp)',
-  'event AnonymousRestructuringProposed(uint256 indexed proposalId, uint256 indexed debtId, bytes32 indexed encryptedProposer, bytes32 encryptedAmount, uint256 timestamp)',
-  'event AnonymousProposalProcessed(uint256 indexed proposalId, uint8 newStatus, bytes32 indexed encryptedProcessor, uint256 timestamp)',
-  'event AnonymousDebtFinalized(uint256 indexed debtId, uint8 finalStatus, bytes32 indexed encryptedFinalizer, uint256 timestamp)',
-  'event AnonymousAccessGranted(uint256 indexed debtId, bytes32 indexed encryptedUser, bytes32 accessKeyHash, uint256 timestamp)',
-  'event AnonymousAccessRevoked(uint256 indexed debtId, bytes32 indexed encryptedUser, bytes32 accessKeyHash, uint256 timestamp)',
-]
+// The contract ABI is generated from contracts/AnonymousDebtManager.sol - see src/contract
 
 // Gas Estimation Configuration
 export const GAS_LIMITS = {
   CREATE_DEBT: 200000,
   PROPOSE_RESTRUCTURING: 250000,
   APPROVE_PROPOSAL: 100000,
+  REVIEW_PROPOSAL: 150000,
   EXECUTE_PROPOSAL: 150000,
   MARK_RESOLVED: 80000,
   MARK_DEFAULTED: 80000,
+  GRANT_ACCESS: 100000,
+  CHANGE_PRIVACY: 90000,
+  REVOKE_ACCESS: 60000,
+  ROTATE_ACCESS_KEY: 80000,
+  SET_CREDITOR: 60000,
 }
 
 // Transaction Configuration
 export const TRANSACTION_CONFIG = {
   // Gas price in Gwei (will be estimated if not provided)
-  maxFeePerGas: null, // Will use network estimation
-  maxPriorityFeePerGas: null, // Will use network estimation
+  maxFeePerGas: null as number | null, // Pins the fee instead of the selected fee tier
+  maxPriorityFeePerGas: null as number | null, // Pins the tip instead of the selected fee tier
+
+  // Default fee tier (slow, normal or fast)
+  feeTier: 'normal' as const,
   
   // Confirmation blocks to wait
   confirmations: 1, // Sepolia is fast, 1 confirmation is usually enough
@@ -118,6 +84,60 @@ export const TRANSACTION_CONFIG = {
   timeout: 300000, // 5 minutes
 }
 
+// EIP-1559 fee strategy
+export const FEE_CONFIG = {
+  // Blocks sampled through eth_feeHistory
+  historyBlocks: 10,
+
+  // Priority fee reward percentile per tier
+  rewardPercentiles: { slow: 10, normal: 50, fast: 90 },
+
+  // Headroom over the next base fee per tier (percent), so the fee survives rising blocks
+  baseFeeMultiplierPercent: { slow: 110, normal: 150, fast: 200 },
+
+  // Legacy gasPrice scaling per tier (percent) on chains without EIP-1559
+  legacyMultiplierPercent: { slow: 90, normal: 100, fast: 125 },
+
+  // Floor for the priority fee when recent blocks carried no tips (Gwei)
+  minPriorityFeeGwei: 0.1,
+
+  // Base fee above which HIGH_GAS_WARNING is shown (Gwei)
+  highBaseFeeGwei: 50,
+
+  // Safety margin added on top of estimated gas (percent)
+  gasLimitBufferPercent: 20,
+}
+
+// Event indexer configuration
+export const INDEXER_CONFIG = {
+  // Blocks per getLogs request; halved down to minChunkSize when a provider caps the range
+  chunkSize: 5000,
+  minChunkSize: 250,
+}
+
+// Batched contract reads
+export const BATCH_READ_CONFIG = {
+  // Maximum eth_call requests sent in one JSON-RPC batch
+  maxBatchSize: 50,
+
+  // Parallel calls through the wallet when batching is unavailable
+  fallbackConcurrency: 4,
+
+  // Batch-capable RPC endpoints by chain id
+  rpcUrls: {
+    [SEPOLIA_CHAIN_ID_DECIMAL]: 'https://ethereum-sepolia.publicnode.com',
+  } as Record<number, string>,
+}
+
+// Client-side FHE encryption (fhevmjs) - Zama's fhEVM coprocessor on Sepolia,
+// matching the SepoliaZamaFHEVMConfig the contract inherits
+export const FHE_CONFIG = {
+  chainId: SEPOLIA_CHAIN_ID_DECIMAL,
+  gatewayUrl: 'https://gateway.sepolia.zama.ai/',
+  kmsContractAddress: '0x9D6891A6240D6130c54ae243d8005063D05fE14b',
+  aclContractAddress: '0xFee8407e2f5e3Ee68ad77cAE98c434e637f516e5',
+}
+
 // Faucet URLs for getting Sepolia ETH
 export const SEPOLIA_FAUCETS = [
   'https://sepoliafaucet.com/',
@@ -130,6 +150,7 @@ export const SEPOLIA_FAUCETS = [
 // Real debt presets with actual values
 export const DEBT_PRESETS = {
   'personal-loan': {
+    name: 'Personal Loan',
     amount: 5000,
     rate: 12.0,
     days: 730, // 2 years
@@ -137,6 +158,7 @@ export const DEBT_PRESETS = {
     category: 'Personal',
   },
   'credit-card': {
+    name: 'Credit Card Consolidation',
     amount: 2500,
     rate: 18.0,
     days: 548, // 18 months
@@ -144,6 +166,7 @@ export const DEBT_PRESETS = {
     category: 'Credit',
   },
   'student-loan': {
+    name: 'Student Loan',
     amount: 15000,
     rate: 6.0,
     days: 3650, // 10 years
@@ -151,6 +174,7 @@ export const DEBT_PRESETS = {
     category: 'Education',
   },
   'business-loan': {
+    name: 'Business Loan',
     amount: 25000,
     rate: 8.0,
     days: 1825, // 5 years
@@ -158,6 +182,7 @@ export const DEBT_PRESETS = {
     category: 'Business',
   },
   'mortgage': {
+    name: 'Mortgage',
     amount: 200000,
     rate: 4.0,
     days: 10950, // 30 years
@@ -165,6 +190,7 @@ export const DEBT_PRESETS = {
     category: 'Real Estate',
   },
   'medical-debt': {
+    name: 'Medical Payment Plan',
     amount: 8000,
     rate: 0.0,
     days: 1095, // 3 years
@@ -175,6 +201,7 @@ export const DEBT_PRESETS = {
 
 export const RESTRUCTURE_PRESETS = {
   hardship: {
+    name: 'Hardship Relief',
     factor: 0.8,
     rateFactor: 0.7,
     termFactor: 1.5,
@@ -182,6 +209,7 @@ export const RESTRUCTURE_PRESETS = {
     category: 'Hardship',
   },
   'lower-rate': {
+    name: 'Lower Rate',
     factor: 1.0,
     rateFactor: 0.6,
     termFactor: 1.0,
@@ -189,6 +217,7 @@ export const RESTRUCTURE_PRESETS = {
     category: 'Rate Reduction',
   },
   'extend-term': {
+    name: 'Extend Term',
     factor: 1.0,
     rateFactor: 1.0,
     termFactor: 2.0,
@@ -196,6 +225,7 @@ export const RESTRUCTURE_PRESETS = {
     category: 'Term Extension',
   },
   'reduce-principal': {
+    name: 'Reduce Principal',
     factor: 0.7,
     rateFactor: 1.0,
     termFactor: 1.0,
@@ -211,20 +241,31 @@ export const STATUS_MESSAGES = {
   CONNECTED: 'Successfully connected to Sepolia testnet! 🌐',
   WALLET_NOT_FOUND: 'MetaMask wallet not found. Please install MetaMask browser extension.',
   WRONG_NETWORK: 'Please switch to Sepolia test network in MetaMask.',
-  CONTRACT_NOT_DEPLOYED: 'Smart contract not deployed. Please deploy the AnonymousDebtManager contract first.',
+  CONTRACT_NOT_DEPLOYED: 'Smart contract not deployed. Deploy AnonymousDebtManager with scripts/deploy.js, which writes its address to .env.local.',
   INSUFFICIENT_BALANCE: 'Insufficient ETH balance. Please get Sepolia ETH from a faucet.',
   
   // Loading
   LOADING_DATA: 'Loading your debt records from blockchain...',
   CHECKING_BALANCE: 'Checking wallet balance and network status...',
   ESTIMATING_GAS: 'Estimating gas fees for transaction...',
+  SIMULATING_TRANSACTION: 'Simulating transaction before signing...',
+  SIGNING_REENCRYPTION: 'Please sign the decryption request in MetaMask to view your encrypted values...',
+  UNLOCKING_ACCESS_KEYS: 'Please sign the access-key request in MetaMask to unlock your anonymous records...',
+  ACCESS_KEYS_DECLINED: 'Access-key signature declined - sealed descriptions stay locked until the next refresh.',
   
   // Transactions
+  ENCRYPTING_INPUTS: 'Encrypting amount, rate and term in your browser...',
+  ENCRYPTION_UNAVAILABLE: 'Terms can only be encrypted on Sepolia, where the fhEVM runs. Switch networks to create debts or proposals.',
   CREATING_DEBT: 'Creating encrypted debt record on Sepolia blockchain...',
   PROPOSING_RESTRUCTURING: 'Submitting restructuring proposal to blockchain...',
   APPROVING_PROPOSAL: 'Submitting approval to blockchain...',
   EXECUTING_PROPOSAL: 'Executing approved proposal on blockchain...',
   MARKING_RESOLVED: 'Marking debt as resolved on blockchain...',
+  GRANTING_ACCESS: 'Granting privacy access on blockchain...',
+  REVOKING_ACCESS: 'Revoking privacy access on blockchain...',
+  ROTATING_ACCESS_KEY: 'Rotating the debt privacy key on blockchain...',
+  CHANGING_PRIVACY: 'Changing debt privacy level on blockchain...',
+  UPDATING_CREDITORS: 'Updating the creditor allowlist on blockchain...',
   
   // Transaction states
   TRANSACTION_PENDING: 'Transaction submitted! Waiting for blockchain confirmation...',
@@ -232,6 +273,9 @@ export const STATUS_MESSAGES = {
   TRANSACTION_SUCCESS: 'Transaction completed successfully! ✅',
   TRANSACTION_FAILED: 'Transaction failed. Please check your wallet and try again.',
   TRANSACTION_REJECTED: 'Transaction was rejected by user.',
+  SIMULATION_FAILED: 'Transaction would fail and was not sent',
+  TRANSACTION_CANCELLED: 'Transaction was cancelled or replaced in your wallet.',
+  TRANSACTION_TIMEOUT: 'Transaction is taking longer than expected. It is still tracked and may confirm later.',
   
   // Gas and fees
   HIGH_GAS_WARNING: 'Gas fees are currently high. Consider waiting for lower fees.',
@@ -243,11 +287,12 @@ export const STATUS_MESSAGES = {
 }
 
 // Validation rules for real blockchain constraints
+// Term ranges mirror the require() checks in AnonymousDebtManager.sol, which counts amounts in cents
 export const VALIDATION_RULES = {
-  MIN_AMOUNT: 0.01, // Minimum $0.01
-  MAX_AMOUNT: 10000000, // Maximum $10M
+  MIN_AMOUNT: 0.01, // Minimum $0.01 (1 cent)
+  MAX_AMOUNT: 100000, // Maximum $100,000 (10,000,000 cents)
   MIN_RATE: 0, // 0% interest allowed
-  MAX_RATE: 100, // 100% maximum interest
+  MAX_RATE: 100, // 100% maximum interest (10,000 basis points)
   MIN_TERM: 1, // 1 day minimum
   MAX_TERM: 36500, // 100 years maximum
   
@@ -260,6 +305,23 @@ export const VALIDATION_RULES = {
   RECOMMENDED_ETH_BALANCE: 0.01, // Recommended ETH balance
 }
 
+// Debt privacy levels as stored by the contract (getPrivacyLevel / PrivacyLevelChanged)
+export const PRIVACY_LEVELS = {
+  BASIC: 1,
+  ANONYMOUS: 3,
+}
+
+export const PRIVACY_LEVEL_INFO: Record<number, { label: string; reveals: string }> = {
+  [PRIVACY_LEVELS.BASIC]: {
+    label: '🔓 Basic privacy',
+    reveals: 'Terms stay encrypted. Addresses you grant access, and proposal counterparties, can see that you are the debtor.',
+  },
+  [PRIVACY_LEVELS.ANONYMOUS]: {
+    label: '🔒 Fully anonymous',
+    reveals: 'Terms stay encrypted and your address is hidden from every reader, including addresses you grant access.',
+  },
+}
+
 // Formatting options
 export const FORMAT_OPTIONS = {
   CURRENCY: {
@@ -311,4 +373,6 @@ export const DEV_CONFIG = {
   MOCK_TRANSACTIONS: false, // Set to false for real blockchain
   SKIP_WALLET_CHECK: false, // Set to false for production
   DEBUG_MODE: process.env.NODE_ENV === 'development',
+  // The mock encryptor only masks terms with a public pad; off the fhEVM it is used in dev builds only
+  ALLOW_MOCK_ENCRYPTION: import.meta.env.DEV,
 }
\ No newline at end of file
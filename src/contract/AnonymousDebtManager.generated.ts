@@ -0,0 +1,1330 @@
+// AUTO-GENERATED from contracts/AnonymousDebtManager.sol by scripts/generate-contract-client.js
+// Do not edit by hand - run `npm run generate:contract` after changing the contract.
+
+import { ethers } from 'ethers'
+
+export const ANONYMOUS_DEBT_MANAGER_ABI = [
+  {
+    "inputs": [],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "user",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "AnonymousAccessRevoked",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "debtor",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "bytes32",
+        "name": "encryptedDataHash",
+        "type": "bytes32"
+      },
+      {
+        "indexed": false,
+        "internalType": "bool",
+        "name": "isFullyAnonymous",
+        "type": "bool"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "AnonymousDebtCreated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "proposalId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "proposer",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "bytes32",
+        "name": "encryptedProposalHash",
+        "type": "bytes32"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "AnonymousProposalSubmitted",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "entityId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "entityType",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint8",
+        "name": "newStatus",
+        "type": "uint8"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "AnonymousStatusUpdate",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "creditor",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "bool",
+        "name": "authorized",
+        "type": "bool"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "changedBy",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "CreditorAuthorizationChanged",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "entityId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "user",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "accessType",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "PrivacyAccessGranted",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "PrivacyKeyRotated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "entityId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "entityType",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "newPrivacyLevel",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "PrivacyLevelChanged",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "proposalId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "reviewer",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "bool",
+        "name": "approved",
+        "type": "bool"
+      },
+      {
+        "indexed": false,
+        "internalType": "string",
+        "name": "encryptedNote",
+        "type": "string"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "timestamp",
+        "type": "uint256"
+      }
+    ],
+    "name": "ProposalReviewNote",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "authorizedCreditors",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "interestRate",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "termDays",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bool",
+        "name": "fullyAnonymous",
+        "type": "bool"
+      },
+      {
+        "internalType": "string",
+        "name": "encryptedDescription",
+        "type": "string"
+      }
+    ],
+    "name": "createAnonymousDebt",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "einput",
+        "name": "encryptedAmount",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "einput",
+        "name": "encryptedRate",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "einput",
+        "name": "encryptedTerm",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bool",
+        "name": "fullyAnonymous",
+        "type": "bool"
+      },
+      {
+        "internalType": "string",
+        "name": "encryptedDescription",
+        "type": "string"
+      }
+    ],
+    "name": "createEncryptedDebt",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      }
+    ],
+    "name": "disableAnonymousMode",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bool",
+        "name": "revokeExistingAccess",
+        "type": "bool"
+      }
+    ],
+    "name": "enableAnonymousMode",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "proposalId",
+        "type": "uint256"
+      }
+    ],
+    "name": "executeAnonymousRestructuring",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getAnonymousDebtInfo",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "debtor",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "interestRate",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "termDays",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "createdAt",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint8",
+        "name": "status",
+        "type": "uint8"
+      },
+      {
+        "internalType": "bool",
+        "name": "isAnonymous",
+        "type": "bool"
+      },
+      {
+        "internalType": "string",
+        "name": "description",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "proposalId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getAnonymousProposalInfo",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "proposer",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "newAmount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "newRate",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "newTerm",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "proposedAt",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint8",
+        "name": "status",
+        "type": "uint8"
+      },
+      {
+        "internalType": "bool",
+        "name": "creditorApproved",
+        "type": "bool"
+      },
+      {
+        "internalType": "bool",
+        "name": "debtorApproved",
+        "type": "bool"
+      },
+      {
+        "internalType": "string",
+        "name": "reason",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getAnonymousStats",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "totalAnonymous",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "totalResolved",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "activeProposals",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getEncryptedDataHashes",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "amountHash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "rateHash",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "termHash",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getEncryptedDebtData",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "encryptedAmount",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "encryptedRate",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "encryptedTerm",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "proposalId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getEncryptedProposalData",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "encryptedNewAmount",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "encryptedNewRate",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "encryptedNewTerm",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getPrivacyLevel",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "proposalId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getReplacedDebtData",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "encryptedAmount",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "encryptedRate",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "encryptedTerm",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getTotalDebts",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getTotalProposals",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "user",
+        "type": "address"
+      }
+    ],
+    "name": "getUserDebts",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "",
+        "type": "uint256[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "user",
+        "type": "address"
+      }
+    ],
+    "name": "getUserProposals",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "",
+        "type": "uint256[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "user",
+        "type": "address"
+      }
+    ],
+    "name": "grantPrivacyAccess",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "nextDebtId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "nextProposalId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "owner",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "proposalId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bool",
+        "name": "approve",
+        "type": "bool"
+      }
+    ],
+    "name": "processAnonymousProposal",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "newAmount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "newInterestRate",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "newTermDays",
+        "type": "uint256"
+      },
+      {
+        "internalType": "string",
+        "name": "encryptedReason",
+        "type": "string"
+      }
+    ],
+    "name": "proposeAnonymousRestructuring",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "einput",
+        "name": "encryptedNewAmount",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "einput",
+        "name": "encryptedNewRate",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "einput",
+        "name": "encryptedNewTerm",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
+      },
+      {
+        "internalType": "string",
+        "name": "encryptedReason",
+        "type": "string"
+      }
+    ],
+    "name": "proposeEncryptedRestructuring",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      }
+    ],
+    "name": "resolveAnonymousDebt",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "proposalId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bool",
+        "name": "approve",
+        "type": "bool"
+      },
+      {
+        "internalType": "string",
+        "name": "encryptedNote",
+        "type": "string"
+      }
+    ],
+    "name": "reviewAnonymousProposal",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "user",
+        "type": "address"
+      }
+    ],
+    "name": "revokePrivacyAccess",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      }
+    ],
+    "name": "rotatePrivacyKey",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "creditor",
+        "type": "address"
+      },
+      {
+        "internalType": "bool",
+        "name": "authorized",
+        "type": "bool"
+      }
+    ],
+    "name": "setAuthorizedCreditor",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "totalActiveProposals",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "totalAnonymousDebts",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "totalResolvedDebts",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "name": "userDebts",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "name": "userProposals",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "expectedHash",
+        "type": "bytes32"
+      }
+    ],
+    "name": "verifyAnonymousDataIntegrity",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "debtId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "user",
+        "type": "address"
+      }
+    ],
+    "name": "verifyPrivacyAccess",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const
+
+export interface GetAnonymousDebtInfoResult {
+  debtor: string
+  amount: bigint
+  interestRate: bigint
+  termDays: bigint
+  createdAt: bigint
+  status: bigint
+  isAnonymous: boolean
+  description: string
+}
+
+export interface GetAnonymousProposalInfoResult {
+  debtId: bigint
+  proposer: string
+  newAmount: bigint
+  newRate: bigint
+  newTerm: bigint
+  proposedAt: bigint
+  status: bigint
+  creditorApproved: boolean
+  debtorApproved: boolean
+  reason: string
+}
+
+export interface GetAnonymousStatsResult {
+  totalAnonymous: bigint
+  totalResolved: bigint
+  activeProposals: bigint
+}
+
+export interface GetEncryptedDataHashesResult {
+  amountHash: string
+  rateHash: string
+  termHash: string
+}
+
+export interface GetEncryptedDebtDataResult {
+  encryptedAmount: string
+  encryptedRate: string
+  encryptedTerm: string
+}
+
+export interface GetEncryptedProposalDataResult {
+  encryptedNewAmount: string
+  encryptedNewRate: string
+  encryptedNewTerm: string
+}
+
+export interface GetReplacedDebtDataResult {
+  encryptedAmount: string
+  encryptedRate: string
+  encryptedTerm: string
+}
+
+export interface DebtManagerFunctions {
+  authorizedCreditors: { args: [arg0: string]; result: boolean }
+  createAnonymousDebt: { args: [amount: ethers.BigNumberish, interestRate: ethers.BigNumberish, termDays: ethers.BigNumberish, fullyAnonymous: boolean, encryptedDescription: string]; result: bigint }
+  createEncryptedDebt: { args: [encryptedAmount: ethers.BytesLike, encryptedRate: ethers.BytesLike, encryptedTerm: ethers.BytesLike, inputProof: ethers.BytesLike, fullyAnonymous: boolean, encryptedDescription: string]; result: bigint }
+  disableAnonymousMode: { args: [debtId: ethers.BigNumberish]; result: void }
+  enableAnonymousMode: { args: [debtId: ethers.BigNumberish, revokeExistingAccess: boolean]; result: void }
+  executeAnonymousRestructuring: { args: [proposalId: ethers.BigNumberish]; result: void }
+  getAnonymousDebtInfo: { args: [debtId: ethers.BigNumberish]; result: GetAnonymousDebtInfoResult }
+  getAnonymousProposalInfo: { args: [proposalId: ethers.BigNumberish]; result: GetAnonymousProposalInfoResult }
+  getAnonymousStats: { args: []; result: GetAnonymousStatsResult }
+  getEncryptedDataHashes: { args: [debtId: ethers.BigNumberish]; result: GetEncryptedDataHashesResult }
+  getEncryptedDebtData: { args: [debtId: ethers.BigNumberish]; result: GetEncryptedDebtDataResult }
+  getEncryptedProposalData: { args: [proposalId: ethers.BigNumberish]; result: GetEncryptedProposalDataResult }
+  getPrivacyLevel: { args: [debtId: ethers.BigNumberish]; result: bigint }
+  getReplacedDebtData: { args: [proposalId: ethers.BigNumberish]; result: GetReplacedDebtDataResult }
+  getTotalDebts: { args: []; result: bigint }
+  getTotalProposals: { args: []; result: bigint }
+  getUserDebts: { args: [user: string]; result: bigint[] }
+  getUserProposals: { args: [user: string]; result: bigint[] }
+  grantPrivacyAccess: { args: [debtId: ethers.BigNumberish, user: string]; result: void }
+  nextDebtId: { args: []; result: bigint }
+  nextProposalId: { args: []; result: bigint }
+  owner: { args: []; result: string }
+  processAnonymousProposal: { args: [proposalId: ethers.BigNumberish, approve: boolean]; result: void }
+  proposeAnonymousRestructuring: { args: [debtId: ethers.BigNumberish, newAmount: ethers.BigNumberish, newInterestRate: ethers.BigNumberish, newTermDays: ethers.BigNumberish, encryptedReason: string]; result: bigint }
+  proposeEncryptedRestructuring: { args: [debtId: ethers.BigNumberish, encryptedNewAmount: ethers.BytesLike, encryptedNewRate: ethers.BytesLike, encryptedNewTerm: ethers.BytesLike, inputProof: ethers.BytesLike, encryptedReason: string]; result: bigint }
+  resolveAnonymousDebt: { args: [debtId: ethers.BigNumberish]; result: void }
+  reviewAnonymousProposal: { args: [proposalId: ethers.BigNumberish, approve: boolean, encryptedNote: string]; result: void }
+  revokePrivacyAccess: { args: [debtId: ethers.BigNumberish, user: string]; result: void }
+  rotatePrivacyKey: { args: [debtId: ethers.BigNumberish]; result: void }
+  setAuthorizedCreditor: { args: [creditor: string, authorized: boolean]; result: void }
+  totalActiveProposals: { args: []; result: bigint }
+  totalAnonymousDebts: { args: []; result: bigint }
+  totalResolvedDebts: { args: []; result: bigint }
+  userDebts: { args: [arg0: string, arg1: ethers.BigNumberish]; result: bigint }
+  userProposals: { args: [arg0: string, arg1: ethers.BigNumberish]; result: bigint }
+  verifyAnonymousDataIntegrity: { args: [debtId: ethers.BigNumberish, expectedHash: ethers.BytesLike]; result: boolean }
+  verifyPrivacyAccess: { args: [debtId: ethers.BigNumberish, user: string]; result: boolean }
+}
+
+export const DEBT_MANAGER_VIEW_METHODS = ['authorizedCreditors', 'getAnonymousDebtInfo', 'getAnonymousProposalInfo', 'getAnonymousStats', 'getEncryptedDataHashes', 'getEncryptedDebtData', 'getEncryptedProposalData', 'getPrivacyLevel', 'getReplacedDebtData', 'getTotalDebts', 'getTotalProposals', 'getUserDebts', 'getUserProposals', 'nextDebtId', 'nextProposalId', 'owner', 'totalActiveProposals', 'totalAnonymousDebts', 'totalResolvedDebts', 'userDebts', 'userProposals', 'verifyAnonymousDataIntegrity', 'verifyPrivacyAccess'] as const
+
+export const DEBT_MANAGER_WRITE_METHODS = ['createAnonymousDebt', 'createEncryptedDebt', 'disableAnonymousMode', 'enableAnonymousMode', 'executeAnonymousRestructuring', 'grantPrivacyAccess', 'processAnonymousProposal', 'proposeAnonymousRestructuring', 'proposeEncryptedRestructuring', 'resolveAnonymousDebt', 'reviewAnonymousProposal', 'revokePrivacyAccess', 'rotatePrivacyKey', 'setAuthorizedCreditor'] as const
+
+export interface AnonymousAccessRevokedEvent {
+  debtId: bigint
+  user: string
+  timestamp: bigint
+}
+
+export interface AnonymousDebtCreatedEvent {
+  debtId: bigint
+  debtor: string
+  encryptedDataHash: string
+  isFullyAnonymous: boolean
+  timestamp: bigint
+}
+
+export interface AnonymousProposalSubmittedEvent {
+  proposalId: bigint
+  debtId: bigint
+  proposer: string
+  encryptedProposalHash: string
+  timestamp: bigint
+}
+
+export interface AnonymousStatusUpdateEvent {
+  entityId: bigint
+  entityType: string
+  newStatus: bigint
+  timestamp: bigint
+}
+
+export interface CreditorAuthorizationChangedEvent {
+  creditor: string
+  authorized: boolean
+  changedBy: string
+  timestamp: bigint
+}
+
+export interface PrivacyAccessGrantedEvent {
+  entityId: bigint
+  user: string
+  accessType: string
+  timestamp: bigint
+}
+
+export interface PrivacyKeyRotatedEvent {
+  debtId: bigint
+  timestamp: bigint
+}
+
+export interface PrivacyLevelChangedEvent {
+  entityId: bigint
+  entityType: string
+  newPrivacyLevel: bigint
+  timestamp: bigint
+}
+
+export interface ProposalReviewNoteEvent {
+  proposalId: bigint
+  reviewer: string
+  approved: boolean
+  encryptedNote: string
+  timestamp: bigint
+}
+
+export interface DebtManagerEvents {
+  AnonymousAccessRevoked: AnonymousAccessRevokedEvent
+  AnonymousDebtCreated: AnonymousDebtCreatedEvent
+  AnonymousProposalSubmitted: AnonymousProposalSubmittedEvent
+  AnonymousStatusUpdate: AnonymousStatusUpdateEvent
+  CreditorAuthorizationChanged: CreditorAuthorizationChangedEvent
+  PrivacyAccessGranted: PrivacyAccessGrantedEvent
+  PrivacyKeyRotated: PrivacyKeyRotatedEvent
+  PrivacyLevelChanged: PrivacyLevelChangedEvent
+  ProposalReviewNote: ProposalReviewNoteEvent
+}
+
+export type DebtManagerEventName = 'AnonymousAccessRevoked' | 'AnonymousDebtCreated' | 'AnonymousProposalSubmitted' | 'AnonymousStatusUpdate' | 'CreditorAuthorizationChanged' | 'PrivacyAccessGranted' | 'PrivacyKeyRotated' | 'PrivacyLevelChanged' | 'ProposalReviewNote'
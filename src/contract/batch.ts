@@ -0,0 +1,109 @@
+// Batched view reads against AnonymousDebtManager
+//
+// The contract gates its views on msg.sender, so Multicall3 aggregation would
+// read everything as the multicall contract and be denied. Instead each call is
+// sent as its own eth_call with `from` set to the user, and the calls are
+// grouped into JSON-RPC batches. Every item settles on its own, so one
+// access-denied debt never sinks the rest. When no batch-capable endpoint is
+// configured for the chain, or the endpoint rejects the batch outright, reads
+// fall back to the wallet client with bounded concurrency.
+
+import { ethers } from 'ethers'
+import { BATCH_READ_CONFIG } from '@/constants'
+import {
+  DebtManagerArgs,
+  DebtManagerClient,
+  DebtManagerResult,
+  DebtManagerViewMethod,
+  debtManagerInterface,
+  decodeFunctionResult,
+} from './client'
+
+export type BatchResult<T> = { ok: true; value: T } | { ok: false; error: unknown }
+
+export interface BatchReadOptions {
+  // Address the views are evaluated for (msg.sender)
+  from: string
+  chainId?: number | string | null
+}
+
+const settle = async <T>(promise: Promise<T>): Promise<BatchResult<T>> => {
+  try {
+    return { ok: true, value: await promise }
+  } catch (error) {
+    return { ok: false, error }
+  }
+}
+
+// Run `task` over every item with at most `limit` in flight, settling each one
+export const mapSettled = async <T, R>(
+  items: ReadonlyArray<T>,
+  limit: number,
+  task: (item: T) => Promise<R>
+): Promise<BatchResult<R>[]> => {
+  const results: BatchResult<R>[] = new Array(items.length)
+  let next = 0
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await settle(task(items[index]))
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+const batchProviders = new Map<number, ethers.JsonRpcProvider>()
+
+const getBatchProvider = (chainId: number): ethers.JsonRpcProvider | null => {
+  const rpcUrl = BATCH_READ_CONFIG.rpcUrls[chainId]
+  if (!rpcUrl) return null
+
+  if (!batchProviders.has(chainId)) {
+    batchProviders.set(
+      chainId,
+      new ethers.JsonRpcProvider(rpcUrl, chainId, {
+        staticNetwork: true,
+        batchMaxCount: BATCH_READ_CONFIG.maxBatchSize,
+      })
+    )
+  }
+  return batchProviders.get(chainId)!
+}
+
+// A revert belongs to its item; anything else means the transport itself failed
+const isTransportFailure = (result: BatchResult<unknown>): boolean => {
+  return !result.ok && !ethers.isError(result.error, 'CALL_EXCEPTION')
+}
+
+export const batchRead = async <M extends DebtManagerViewMethod>(
+  client: DebtManagerClient,
+  method: M,
+  argsList: ReadonlyArray<DebtManagerArgs<M>>,
+  options: BatchReadOptions
+): Promise<BatchResult<DebtManagerResult<M>>[]> => {
+  if (argsList.length === 0) return []
+
+  const provider = options.chainId != null ? getBatchProvider(Number(options.chainId)) : null
+  if (provider) {
+    // Issued in the same tick, so ethers packs them into batchMaxCount-sized batches
+    const results = await Promise.all(
+      argsList.map((args) =>
+        settle(
+          provider
+            .call({
+              to: client.address,
+              from: options.from,
+              data: debtManagerInterface.encodeFunctionData(method, args as unknown[]),
+            })
+            .then((data) => decodeFunctionResult(method, debtManagerInterface.decodeFunctionResult(method, data)))
+        )
+      )
+    )
+    if (!results.every(isTransportFailure)) return results
+  }
+
+  return mapSettled(argsList, BATCH_READ_CONFIG.fallbackConcurrency, (args) => client.staticCall(method, args))
+}
@@ -0,0 +1,133 @@
+// Typed AnonymousDebtManager client built on the generated ABI
+//
+// View methods resolve to decoded structs keyed by the Solidity output names;
+// write methods accept optional ethers overrides and return the sent transaction.
+
+import { ethers } from 'ethers'
+import {
+  ANONYMOUS_DEBT_MANAGER_ABI,
+  DEBT_MANAGER_VIEW_METHODS,
+  DEBT_MANAGER_WRITE_METHODS,
+  DebtManagerEventName,
+  DebtManagerEvents,
+  DebtManagerFunctions,
+} from './AnonymousDebtManager.generated'
+
+export type DebtManagerViewMethod = typeof DEBT_MANAGER_VIEW_METHODS[number]
+export type DebtManagerWriteMethod = typeof DEBT_MANAGER_WRITE_METHODS[number]
+export type DebtManagerMethod = DebtManagerViewMethod | DebtManagerWriteMethod
+
+export type DebtManagerArgs<M extends DebtManagerMethod> = DebtManagerFunctions[M]['args']
+export type DebtManagerResult<M extends DebtManagerMethod> = DebtManagerFunctions[M]['result']
+
+type ViewMethods = {
+  [M in DebtManagerViewMethod]: (...args: DebtManagerArgs<M>) => Promise<DebtManagerResult<M>>
+}
+
+type WriteMethods = {
+  [M in DebtManagerWriteMethod]: (
+    ...args: [...DebtManagerArgs<M>, overrides?: ethers.Overrides]
+  ) => Promise<ethers.ContractTransactionResponse>
+}
+
+export type DebtManagerClient = ViewMethods & WriteMethods & {
+  readonly address: string
+  readonly contract: ethers.Contract
+  readonly interface: ethers.Interface
+  estimateGas: <M extends DebtManagerWriteMethod>(method: M, args: DebtManagerArgs<M>) => Promise<bigint>
+  staticCall: <M extends DebtManagerMethod>(method: M, args: DebtManagerArgs<M>) => Promise<DebtManagerResult<M>>
+  send: <M extends DebtManagerWriteMethod>(
+    method: M,
+    args: DebtManagerArgs<M>,
+    overrides?: ethers.Overrides
+  ) => Promise<ethers.ContractTransactionResponse>
+  parseEvent: <E extends DebtManagerEventName>(
+    name: E,
+    log: { topics: ReadonlyArray<string>; data: string }
+  ) => DebtManagerEvents[E] | null
+}
+
+export const debtManagerInterface = new ethers.Interface(ANONYMOUS_DEBT_MANAGER_ABI)
+
+// Convert nested ethers Result values into plain arrays
+const toPlain = (value: unknown): unknown => {
+  if (value instanceof ethers.Result) {
+    return value.toArray().map(toPlain)
+  }
+  return value
+}
+
+// Decode a raw call result into the shape declared in DebtManagerFunctions
+export const decodeFunctionResult = <M extends DebtManagerMethod>(
+  method: M,
+  result: ethers.Result
+): DebtManagerResult<M> => {
+  const fragment = debtManagerInterface.getFunction(method)!
+  if (fragment.outputs.length === 0) return undefined as DebtManagerResult<M>
+  if (fragment.outputs.length === 1) return toPlain(result[0]) as DebtManagerResult<M>
+
+  const decoded: Record<string, unknown> = {}
+  fragment.outputs.forEach((output, i) => {
+    decoded[output.name || `arg${i}`] = toPlain(result[i])
+  })
+  return decoded as unknown as DebtManagerResult<M>
+}
+
+export const decodeEventArgs = <E extends DebtManagerEventName>(
+  name: E,
+  args: ethers.Result
+): DebtManagerEvents[E] => {
+  const fragment = debtManagerInterface.getEvent(name)!
+  const decoded: Record<string, unknown> = {}
+  fragment.inputs.forEach((input, i) => {
+    decoded[input.name || `arg${i}`] = toPlain(args[i])
+  })
+  return decoded as unknown as DebtManagerEvents[E]
+}
+
+export const createDebtManagerClient = (address: string, runner: ethers.ContractRunner): DebtManagerClient => {
+  const contract = new ethers.Contract(address, ANONYMOUS_DEBT_MANAGER_ABI, runner)
+
+  // Works for write methods too: simulates the call from the runner's address
+  const staticCall = async <M extends DebtManagerMethod>(method: M, args: DebtManagerArgs<M>) => {
+    const result = await contract.getFunction(method).staticCallResult(...(args as unknown[]))
+    return decodeFunctionResult(method, result)
+  }
+
+  const send = <M extends DebtManagerWriteMethod>(
+    method: M,
+    args: DebtManagerArgs<M>,
+    overrides: ethers.Overrides = {}
+  ): Promise<ethers.ContractTransactionResponse> => {
+    return contract.getFunction(method).send(...(args as unknown[]), overrides)
+  }
+
+  const client: Record<string, unknown> = {
+    address,
+    contract,
+    interface: contract.interface,
+    staticCall,
+    send,
+    estimateGas: <M extends DebtManagerWriteMethod>(method: M, args: DebtManagerArgs<M>) => {
+      return contract.getFunction(method).estimateGas(...(args as unknown[]))
+    },
+    parseEvent: <E extends DebtManagerEventName>(name: E, log: { topics: ReadonlyArray<string>; data: string }) => {
+      const parsed = contract.interface.parseLog(log)
+      return parsed && parsed.name === name ? decodeEventArgs(name, parsed.args) : null
+    },
+  }
+
+  for (const method of DEBT_MANAGER_VIEW_METHODS) {
+    client[method] = (...args: unknown[]) => staticCall(method, args as DebtManagerArgs<typeof method>)
+  }
+
+  for (const method of DEBT_MANAGER_WRITE_METHODS) {
+    const inputCount = contract.interface.getFunction(method)!.inputs.length
+    client[method] = (...args: unknown[]) => {
+      const overrides = args.length > inputCount ? (args[inputCount] as ethers.Overrides) : {}
+      return send(method, args.slice(0, inputCount) as DebtManagerArgs<typeof method>, overrides)
+    }
+  }
+
+  return client as unknown as DebtManagerClient
+}
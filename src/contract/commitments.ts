@@ -0,0 +1,37 @@
+// Local recomputation of AnonymousDebtManager privacy-hash commitments
+//
+// Terms submitted in plaintext are stored as _generatePrivacyHash(value, sender,
+// block.timestamp, domain). Anyone told the terms, the submitter and the block
+// time can rebuild the hash off-chain and compare it with the stored slot.
+// Keep in sync with contracts/AnonymousDebtManager.sol.
+
+import { ethers } from 'ethers'
+
+export type CommitmentKind = 'debt' | 'proposal'
+export type CommitmentField = 'amount' | 'rate' | 'term'
+
+export const PRIVACY_SALT = ethers.id('ANONYMOUS_DEBT_PRIVACY_2024')
+export const ENCRYPTION_DOMAIN = ethers.id('FHE_STYLE_ENCRYPTION_DOMAIN')
+
+// Domain strings passed to _generatePrivacyHash per record kind
+export const COMMITMENT_DOMAINS: Record<CommitmentKind, Record<CommitmentField, string>> = {
+  debt: { amount: 'AMOUNT', rate: 'RATE', term: 'TERM' },
+  proposal: { amount: 'NEW_AMOUNT', rate: 'NEW_RATE', term: 'NEW_TERM' },
+}
+
+export const computePrivacyHash = (
+  value: bigint,
+  user: string,
+  timestamp: bigint,
+  domain: string
+): string => {
+  return ethers.solidityPackedKeccak256(
+    ['uint256', 'address', 'uint256', 'string', 'bytes32', 'bytes32'],
+    [value, user, timestamp, domain, PRIVACY_SALT, ENCRYPTION_DOMAIN]
+  )
+}
+
+// The hash verifyAnonymousDataIntegrity compares against
+export const combineCommitments = (amount: string, rate: string, term: string): string => {
+  return ethers.solidityPackedKeccak256(['bytes32', 'bytes32', 'bytes32'], [amount, rate, term])
+}
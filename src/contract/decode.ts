@@ -0,0 +1,136 @@
+// Decoding of AnonymousDebtManager view results into UI records
+//
+// Fields are read by their Solidity output names and checked before any unit
+// conversion, so a malformed response fails loudly instead of becoming NaN.
+
+import { ethers } from 'ethers'
+import { DebtRecord, RestructuringProposal, DebtStatus, ProposalStatus } from '@/types'
+import { GetAnonymousDebtInfoResult, GetAnonymousProposalInfoResult } from './AnonymousDebtManager.generated'
+import { DebtManagerViewMethod, debtManagerInterface } from './client'
+import { fromContractAmount, fromContractRate, fromContractTerm, remainingTermDays } from './units'
+
+export class DecodeError extends Error {
+  method: string
+  field?: string
+
+  constructor(method: string, message: string, field?: string) {
+    super(`Malformed ${method} response${field ? ` (field "${field}")` : ''}: ${message}`)
+    this.name = 'DecodeError'
+    this.method = method
+    this.field = field
+  }
+}
+
+type RawResult = ethers.Result | Record<string, unknown>
+
+// Read every declared output by name, rejecting responses that are missing any
+const readNamedOutputs = (method: DebtManagerViewMethod, raw: RawResult): Record<string, unknown> => {
+  if (raw === null || typeof raw !== 'object') {
+    throw new DecodeError(method, `expected a result object, received ${String(raw)}`)
+  }
+
+  const source = raw instanceof ethers.Result ? raw.toObject() : raw
+  const values: Record<string, unknown> = {}
+  for (const output of debtManagerInterface.getFunction(method)!.outputs) {
+    if (!(output.name in source) || source[output.name] === undefined) {
+      throw new DecodeError(method, 'missing from response', output.name)
+    }
+    values[output.name] = source[output.name]
+  }
+  return values
+}
+
+const expectUint = (method: string, field: string, value: unknown, max = BigInt(Number.MAX_SAFE_INTEGER)): bigint => {
+  if (typeof value !== 'bigint' && typeof value !== 'number') {
+    throw new DecodeError(method, `expected an unsigned integer, received ${typeof value}`, field)
+  }
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new DecodeError(method, `expected an unsigned integer, received ${value}`, field)
+  }
+  const uint = BigInt(value)
+  if (uint < 0n || uint > max) {
+    throw new DecodeError(method, `${uint.toString()} is outside the supported range`, field)
+  }
+  return uint
+}
+
+const expectBool = (method: string, field: string, value: unknown): boolean => {
+  if (typeof value !== 'boolean') {
+    throw new DecodeError(method, `expected a boolean, received ${typeof value}`, field)
+  }
+  return value
+}
+
+const expectString = (method: string, field: string, value: unknown): string => {
+  if (typeof value !== 'string') {
+    throw new DecodeError(method, `expected a string, received ${typeof value}`, field)
+  }
+  return value
+}
+
+const expectAddress = (method: string, field: string, value: unknown): string => {
+  if (typeof value !== 'string' || !ethers.isAddress(value)) {
+    throw new DecodeError(method, `expected an address, received ${String(value)}`, field)
+  }
+  return ethers.getAddress(value)
+}
+
+const expectEnum = <E extends number>(
+  method: string,
+  field: string,
+  value: unknown,
+  enumObject: Record<string, string | number>
+): E => {
+  const index = Number(expectUint(method, field, value, 255n))
+  if (typeof enumObject[index] !== 'string') {
+    throw new DecodeError(method, `unknown status ${index}`, field)
+  }
+  return index as E
+}
+
+export const decodeDebtInfo = (
+  debtId: bigint | number,
+  raw: RawResult | GetAnonymousDebtInfoResult,
+  now?: number
+): DebtRecord & { description: string } => {
+  const method = 'getAnonymousDebtInfo'
+  const info = readNamedOutputs(method, raw as RawResult)
+
+  const createdAt = Number(expectUint(method, 'createdAt', info.createdAt))
+  const termDays = fromContractTerm(expectUint(method, 'termDays', info.termDays))
+
+  return {
+    id: Number(debtId),
+    debtor: expectAddress(method, 'debtor', info.debtor),
+    amount: fromContractAmount(expectUint(method, 'amount', info.amount)),
+    interestRate: fromContractRate(expectUint(method, 'interestRate', info.interestRate)),
+    originalTerm: termDays,
+    remainingTerm: remainingTermDays(createdAt, termDays, now),
+    createdAt,
+    status: expectEnum<DebtStatus>(method, 'status', info.status, DebtStatus),
+    isAnonymous: expectBool(method, 'isAnonymous', info.isAnonymous),
+    description: expectString(method, 'description', info.description),
+  }
+}
+
+export const decodeProposalInfo = (
+  proposalId: bigint | number,
+  raw: RawResult | GetAnonymousProposalInfoResult
+): RestructuringProposal => {
+  const method = 'getAnonymousProposalInfo'
+  const info = readNamedOutputs(method, raw as RawResult)
+
+  return {
+    id: Number(proposalId),
+    debtId: Number(expectUint(method, 'debtId', info.debtId)),
+    proposer: expectAddress(method, 'proposer', info.proposer),
+    newAmount: fromContractAmount(expectUint(method, 'newAmount', info.newAmount)),
+    newRate: fromContractRate(expectUint(method, 'newRate', info.newRate)),
+    newTerm: fromContractTerm(expectUint(method, 'newTerm', info.newTerm)),
+    proposedAt: Number(expectUint(method, 'proposedAt', info.proposedAt)),
+    status: expectEnum<ProposalStatus>(method, 'status', info.status, ProposalStatus),
+    reason: expectString(method, 'reason', info.reason),
+    debtorApproved: expectBool(method, 'debtorApproved', info.debtorApproved),
+    creditorApproved: expectBool(method, 'creditorApproved', info.creditorApproved),
+  }
+}
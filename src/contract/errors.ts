@@ -0,0 +1,210 @@
+// Typed AnonymousDebtManager revert reasons
+//
+// Maps the contract's require() strings to user-facing messages with a hint on
+// how to fix the call. Keep in sync with contracts/AnonymousDebtManager.sol.
+
+import { ethers } from 'ethers'
+
+export type ContractRevertCode =
+  | 'UNAUTHORIZED_OWNER'
+  | 'INVALID_DEBT_ID'
+  | 'INVALID_PROPOSAL_ID'
+  | 'PRIVACY_ACCESS_DENIED'
+  | 'PROPOSAL_ACCESS_DENIED'
+  | 'INVALID_AMOUNT'
+  | 'INVALID_RATE'
+  | 'INVALID_TERM'
+  | 'DEBT_NOT_ACTIVE'
+  | 'PROPOSAL_NOT_PENDING'
+  | 'PROPOSAL_NOT_APPROVED'
+  | 'PROPOSAL_NOT_EXECUTED'
+  | 'NOT_AUTHORIZED_TO_PROCESS'
+  | 'MISSING_INPUT_PROOF'
+  | 'NOT_AUTHORIZED_TO_MANAGE_ACCESS'
+  | 'NO_ACCESS_TO_REVOKE'
+  | 'NOT_DEBTOR'
+  | 'PRIVACY_UNCHANGED'
+  | 'INVALID_CREDITOR'
+  | 'CREDITOR_UNCHANGED'
+  | 'UNKNOWN'
+
+interface RevertDescription {
+  code: ContractRevertCode
+  message: string
+  hint: string
+}
+
+export const REVERT_REASONS: Record<string, RevertDescription> = {
+  'Unauthorized: Owner only': {
+    code: 'UNAUTHORIZED_OWNER',
+    message: 'Only the contract owner can do this.',
+    hint: 'Switch to the owner account in MetaMask.',
+  },
+  'Invalid debt ID': {
+    code: 'INVALID_DEBT_ID',
+    message: 'That debt does not exist.',
+    hint: 'Reload your debts and pick one from the list.',
+  },
+  'Invalid proposal ID': {
+    code: 'INVALID_PROPOSAL_ID',
+    message: 'That proposal does not exist.',
+    hint: 'Reload your proposals and pick one from the list.',
+  },
+  'Privacy access denied': {
+    code: 'PRIVACY_ACCESS_DENIED',
+    message: 'This account has no access to the debt.',
+    hint: 'Ask the debtor to grant your address privacy access, or switch to the account that created it.',
+  },
+  'Proposal access denied': {
+    code: 'PROPOSAL_ACCESS_DENIED',
+    message: 'This account has no access to the proposal.',
+    hint: 'Only the proposer, the debt owner, authorized creditors and the contract owner can access a proposal.',
+  },
+  'Invalid amount range': {
+    code: 'INVALID_AMOUNT',
+    message: 'The amount is outside the range the contract accepts.',
+    hint: 'Enter an amount between $0.01 and $100,000.',
+  },
+  'Invalid new amount': {
+    code: 'INVALID_AMOUNT',
+    message: 'The new amount is outside the range the contract accepts.',
+    hint: 'Enter an amount between $0.01 and $100,000.',
+  },
+  'Interest rate too high': {
+    code: 'INVALID_RATE',
+    message: 'The interest rate is above the contract limit.',
+    hint: 'Enter a rate of 100% or less.',
+  },
+  'New rate too high': {
+    code: 'INVALID_RATE',
+    message: 'The new interest rate is above the contract limit.',
+    hint: 'Enter a rate of 100% or less.',
+  },
+  'Invalid term range': {
+    code: 'INVALID_TERM',
+    message: 'The term is outside the range the contract accepts.',
+    hint: 'Enter a term between 1 and 36,500 days.',
+  },
+  'Invalid new term': {
+    code: 'INVALID_TERM',
+    message: 'The new term is outside the range the contract accepts.',
+    hint: 'Enter a term between 1 and 36,500 days.',
+  },
+  'Debt not active': {
+    code: 'DEBT_NOT_ACTIVE',
+    message: 'The debt is no longer active.',
+    hint: 'Resolved debts cannot be changed and restructured debts cannot be restructured again; reload to see its current status.',
+  },
+  'Proposal not pending': {
+    code: 'PROPOSAL_NOT_PENDING',
+    message: 'The proposal has already been decided.',
+    hint: 'Reload proposals to see whether it was approved, rejected or executed.',
+  },
+  'Proposal not approved': {
+    code: 'PROPOSAL_NOT_APPROVED',
+    message: 'The proposal needs approval from both debtor and creditor before it can be executed.',
+    hint: 'Wait for the other party to approve, then execute again.',
+  },
+  'Proposal not executed': {
+    code: 'PROPOSAL_NOT_EXECUTED',
+    message: 'The proposal has not been executed, so no terms were replaced.',
+    hint: 'Execute the approved proposal first.',
+  },
+  'Not authorized to process proposal': {
+    code: 'NOT_AUTHORIZED_TO_PROCESS',
+    message: 'Only the debtor or an authorized creditor can approve or reject this proposal.',
+    hint: 'Switch to the debtor account, or ask the contract owner to authorize you as a creditor.',
+  },
+  'Missing input proof': {
+    code: 'MISSING_INPUT_PROOF',
+    message: 'The encrypted inputs were sent without a proof.',
+    hint: 'Submit the form again so the terms are re-encrypted.',
+  },
+  'Not authorized to grant access': {
+    code: 'NOT_AUTHORIZED_TO_MANAGE_ACCESS',
+    message: 'Only the debtor or the contract owner can grant access to this debt.',
+    hint: 'Switch to the account that created the debt.',
+  },
+  'Not authorized to manage access': {
+    code: 'NOT_AUTHORIZED_TO_MANAGE_ACCESS',
+    message: 'Only the debtor or the contract owner can manage access to this debt.',
+    hint: 'Switch to the account that created the debt.',
+  },
+  'No access to revoke': {
+    code: 'NO_ACCESS_TO_REVOKE',
+    message: 'That address has no access to revoke.',
+    hint: 'Reload the access list; the grant may already have been revoked.',
+  },
+  'Only debtor can change privacy': {
+    code: 'NOT_DEBTOR',
+    message: 'Only the debtor can change the privacy level of this debt.',
+    hint: 'Switch to the account that created the debt.',
+  },
+  'Invalid creditor address': {
+    code: 'INVALID_CREDITOR',
+    message: 'The creditor address is not valid.',
+    hint: 'Enter a non-zero Ethereum address.',
+  },
+  'Creditor status unchanged': {
+    code: 'CREDITOR_UNCHANGED',
+    message: 'That address already has this creditor status.',
+    hint: 'Reload the allowlist to see the current creditors.',
+  },
+  'Already anonymous': {
+    code: 'PRIVACY_UNCHANGED',
+    message: 'The debt is already fully anonymous.',
+    hint: 'Reload your debts to see its current privacy level.',
+  },
+  'Not anonymous': {
+    code: 'PRIVACY_UNCHANGED',
+    message: 'The debt already uses basic privacy.',
+    hint: 'Reload your debts to see its current privacy level.',
+  },
+}
+
+export class ContractRevertError extends Error {
+  code: ContractRevertCode
+  reason: string | null
+  hint: string | null
+  method: string | null
+  cause?: unknown
+
+  constructor(method: string | null, reason: string | null, cause?: unknown) {
+    const known = reason ? REVERT_REASONS[reason] : undefined
+    super(known ? known.message : reason ? `Contract rejected the call: ${reason}` : 'Contract rejected the call.')
+    this.name = 'ContractRevertError'
+    this.code = known?.code ?? 'UNKNOWN'
+    this.reason = reason
+    this.hint = known?.hint ?? null
+    this.method = method
+    this.cause = cause
+  }
+}
+
+// Pull the require() string out of the shapes ethers and wallets wrap reverts in
+const extractRevertReason = (error: any): string | null => {
+  if (ethers.isError(error, 'CALL_EXCEPTION')) {
+    if (error.reason) return error.reason
+    if (error.revert?.name === 'Error') return String(error.revert.args[0])
+  }
+
+  const nested = error?.info?.error ?? error?.error
+  if (nested && nested !== error) {
+    const reason = extractRevertReason(nested)
+    if (reason) return reason
+  }
+
+  const match = /execution reverted(?::\s*"?([^"]+)"?)?/i.exec(String(error?.message ?? ''))
+  return match?.[1]?.trim() || null
+}
+
+export const isRevert = (error: any): boolean => {
+  return ethers.isError(error, 'CALL_EXCEPTION') || /execution reverted/i.test(String(error?.message ?? ''))
+}
+
+// Returns null for failures that are not contract reverts (network errors, user rejection)
+export const decodeRevert = (error: unknown, method: string | null = null): ContractRevertError | null => {
+  if (error instanceof ContractRevertError) return error
+  if (!isRevert(error)) return null
+  return new ContractRevertError(method, extractRevertReason(error), error)
+}
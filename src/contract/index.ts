@@ -0,0 +1,9 @@
+// AnonymousDebtManager contract client
+export * from './AnonymousDebtManager.generated'
+export * from './client'
+export * from './decode'
+export * from './units'
+export * from './batch'
+export * from './errors'
+export * from './commitments'
+export * from './status'
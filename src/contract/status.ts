@@ -0,0 +1,108 @@
+// Canonical debt and proposal status model
+//
+// DebtStatus and ProposalStatus in src/types carry the contract's ordinals.
+// Labels, badge classes and colors are defined once here, together with the
+// transitions the contract allows, so components offer only actions that can
+// succeed on-chain.
+
+import { DebtStatus, ProposalStatus } from '@/types'
+
+export interface StatusInfo {
+  // Solidity enum member name, also the badge text
+  name: string
+  label: string
+  icon: string
+  // Suffix of the .debt-status / .proposal-status badge classes
+  className: string
+  color: string
+}
+
+export const DEBT_STATUS_INFO: Record<DebtStatus, StatusInfo> = {
+  [DebtStatus.ACTIVE]: { name: 'ACTIVE', label: 'Active', icon: '🟢', className: 'active', color: '#22c55e' },
+  [DebtStatus.RESOLVED]: { name: 'RESOLVED', label: 'Resolved', icon: '✅', className: 'resolved', color: '#10b981' },
+  [DebtStatus.DEFAULTED]: { name: 'DEFAULTED', label: 'Defaulted', icon: '🔴', className: 'defaulted', color: '#ef4444' },
+  [DebtStatus.RESTRUCTURED]: {
+    name: 'RESTRUCTURED',
+    label: 'Restructured',
+    icon: '🟣',
+    className: 'restructured',
+    color: '#8b5cf6',
+  },
+}
+
+export const PROPOSAL_STATUS_INFO: Record<ProposalStatus, StatusInfo> = {
+  [ProposalStatus.PENDING]: { name: 'PENDING', label: 'Pending', icon: '⏳', className: 'pending', color: '#f59e0b' },
+  [ProposalStatus.APPROVED]: { name: 'APPROVED', label: 'Approved', icon: '✅', className: 'approved', color: '#10b981' },
+  [ProposalStatus.REJECTED]: { name: 'REJECTED', label: 'Rejected', icon: '❌', className: 'rejected', color: '#ef4444' },
+  [ProposalStatus.EXECUTED]: { name: 'EXECUTED', label: 'Executed', icon: '🚀', className: 'executed', color: '#8b5cf6' },
+}
+
+// Unknown ordinals (e.g. from a newer contract) fall back to a neutral badge
+const UNKNOWN_STATUS: StatusInfo = { name: 'UNKNOWN', label: 'Unknown', icon: '❔', className: 'unknown', color: '#94a3b8' }
+
+export const getDebtStatusInfo = (status: DebtStatus): StatusInfo => DEBT_STATUS_INFO[status] ?? UNKNOWN_STATUS
+
+export const getProposalStatusInfo = (status: ProposalStatus): StatusInfo => {
+  return PROPOSAL_STATUS_INFO[status] ?? UNKNOWN_STATUS
+}
+
+// Transitions the contract performs:
+//   ACTIVE -> RESOLVED         resolveAnonymousDebt
+//   ACTIVE -> RESTRUCTURED     executeAnonymousRestructuring
+//   RESTRUCTURED -> RESOLVED   resolveAnonymousDebt, once the restructured terms are repaid
+// A restructured debt cannot be restructured again. No contract function marks a debt
+// DEFAULTED, and RESOLVED and DEFAULTED are final.
+export const DEBT_TRANSITIONS: Record<DebtStatus, readonly DebtStatus[]> = {
+  [DebtStatus.ACTIVE]: [DebtStatus.RESOLVED, DebtStatus.RESTRUCTURED],
+  [DebtStatus.RESOLVED]: [],
+  [DebtStatus.DEFAULTED]: [],
+  [DebtStatus.RESTRUCTURED]: [DebtStatus.RESOLVED],
+}
+
+// A single approval leaves a proposal PENDING; it becomes APPROVED once the other party approves
+export const PROPOSAL_TRANSITIONS: Record<ProposalStatus, readonly ProposalStatus[]> = {
+  [ProposalStatus.PENDING]: [ProposalStatus.APPROVED, ProposalStatus.REJECTED],
+  [ProposalStatus.APPROVED]: [ProposalStatus.EXECUTED],
+  [ProposalStatus.REJECTED]: [],
+  [ProposalStatus.EXECUTED]: [],
+}
+
+export const canTransitionDebt = (from: DebtStatus, to: DebtStatus): boolean => {
+  return DEBT_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+export const canTransitionProposal = (from: ProposalStatus, to: ProposalStatus): boolean => {
+  return PROPOSAL_TRANSITIONS[from]?.includes(to) ?? false
+}
+
+export type DebtAction = 'resolve' | 'propose'
+export type ProposalAction = 'approve' | 'reject' | 'execute'
+
+// Proposing leaves the debt ACTIVE but only makes sense while it can still be restructured
+const DEBT_ACTION_TARGETS: Record<DebtAction, DebtStatus> = {
+  resolve: DebtStatus.RESOLVED,
+  propose: DebtStatus.RESTRUCTURED,
+}
+
+const PROPOSAL_ACTION_TARGETS: Record<ProposalAction, ProposalStatus> = {
+  approve: ProposalStatus.APPROVED,
+  reject: ProposalStatus.REJECTED,
+  execute: ProposalStatus.EXECUTED,
+}
+
+export const getDebtActions = (status: DebtStatus): DebtAction[] => {
+  return (Object.keys(DEBT_ACTION_TARGETS) as DebtAction[]).filter((action) =>
+    canTransitionDebt(status, DEBT_ACTION_TARGETS[action])
+  )
+}
+
+// Executing also moves the debt to RESTRUCTURED, so it needs the debt's status when known
+export const getProposalActions = (status: ProposalStatus, debtStatus?: DebtStatus): ProposalAction[] => {
+  return (Object.keys(PROPOSAL_ACTION_TARGETS) as ProposalAction[]).filter((action) => {
+    if (!canTransitionProposal(status, PROPOSAL_ACTION_TARGETS[action])) return false
+    if (action === 'execute' && debtStatus !== undefined) {
+      return canTransitionDebt(debtStatus, DebtStatus.RESTRUCTURED)
+    }
+    return true
+  })
+}
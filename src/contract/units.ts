@@ -0,0 +1,44 @@
+// Unit conventions between the UI and AnonymousDebtManager
+//
+//   amounts     UI: USD (2 decimals)       contract: integer cents
+//   rates       UI: percent (2 decimals)   contract: integer basis points
+//   terms       UI: days                   contract: integer days
+//   timestamps  UI: unix seconds           contract: block.timestamp (seconds)
+
+export const CENTS_PER_DOLLAR = 100
+export const BASIS_POINTS_PER_PERCENT = 100
+export const SECONDS_PER_DAY = 86400
+
+export const toContractAmount = (usd: number): bigint => {
+  return BigInt(Math.round(usd * CENTS_PER_DOLLAR))
+}
+
+export const fromContractAmount = (cents: bigint): number => {
+  return Number(cents) / CENTS_PER_DOLLAR
+}
+
+export const toContractRate = (percent: number): bigint => {
+  return BigInt(Math.round(percent * BASIS_POINTS_PER_PERCENT))
+}
+
+export const fromContractRate = (basisPoints: bigint): number => {
+  return Number(basisPoints) / BASIS_POINTS_PER_PERCENT
+}
+
+export const toContractTerm = (days: number): bigint => {
+  return BigInt(Math.round(days))
+}
+
+export const fromContractTerm = (days: bigint): number => {
+  return Number(days)
+}
+
+export const nowInSeconds = (): number => {
+  return Math.floor(Date.now() / 1000)
+}
+
+// Days of the term left at `now`, never negative
+export const remainingTermDays = (createdAt: number, termDays: number, now = nowInSeconds()): number => {
+  const elapsedDays = Math.floor(Math.max(0, now - createdAt) / SECONDS_PER_DAY)
+  return Math.max(0, termDays - elapsedDays)
+}
@@ -0,0 +1,112 @@
+// fhevmjs-backed encryptor for the fhEVM on Sepolia
+//
+// fhevmjs ships a large WASM payload, so the pinned npm package is imported
+// the first time something is encrypted and Vite splits it out of the app
+// bundle.
+
+import { ethers } from 'ethers'
+import type { FhevmInstance } from 'fhevmjs'
+import { FHE_CONFIG } from '@/constants'
+import { assertFitsBits, EncryptedTerms, Encryptor, PlainTerms, ReencryptionSession } from './types'
+
+type FhevmModule = typeof import('fhevmjs')
+
+let modulePromise: Promise<FhevmModule> | null = null
+
+const loadFhevmjs = (): Promise<FhevmModule> => {
+  if (!modulePromise) {
+    modulePromise = (async () => {
+      // The browser build of fhevmjs still expects Node's Buffer global
+      const { Buffer } = await import('buffer')
+      if (!('Buffer' in globalThis)) {
+        Object.assign(globalThis, { Buffer })
+      }
+      const fhevmjs = await import('fhevmjs')
+      await fhevmjs.initFhevm()
+      return fhevmjs
+    })().catch((error) => {
+      // Let the next attempt retry the import
+      modulePromise = null
+      throw error
+    })
+  }
+  return modulePromise
+}
+
+export const createFhevmEncryptor = (chainId: number, ethereum: ethers.Eip1193Provider = window.ethereum): Encryptor => {
+  let instancePromise: Promise<FhevmInstance> | null = null
+
+  const getInstance = () => {
+    if (!instancePromise) {
+      instancePromise = loadFhevmjs()
+        .then((fhevmjs) =>
+          fhevmjs.createInstance({
+            chainId,
+            network: ethereum,
+            gatewayUrl: FHE_CONFIG.gatewayUrl,
+            kmsContractAddress: FHE_CONFIG.kmsContractAddress,
+            aclContractAddress: FHE_CONFIG.aclContractAddress,
+          })
+        )
+        .catch((error) => {
+          instancePromise = null
+          throw error
+        })
+    }
+    return instancePromise
+  }
+
+  const encryptTerms = async (
+    contractAddress: string,
+    userAddress: string,
+    terms: PlainTerms
+  ): Promise<EncryptedTerms> => {
+    assertFitsBits('amount', terms.amount)
+    assertFitsBits('rate', terms.rate)
+    assertFitsBits('term', terms.term)
+
+    const instance = await getInstance()
+    const { handles, inputProof } = await instance
+      .createEncryptedInput(contractAddress, userAddress)
+      .add64(terms.amount)
+      .add16(terms.rate)
+      .add16(terms.term)
+      .encrypt()
+
+    return {
+      amount: ethers.hexlify(handles[0]),
+      rate: ethers.hexlify(handles[1]),
+      term: ethers.hexlify(handles[2]),
+      inputProof: ethers.hexlify(inputProof),
+    }
+  }
+
+  const createReencryptionSession = async (
+    signer: ethers.Signer,
+    contractAddress: string
+  ): Promise<ReencryptionSession> => {
+    const instance = await getInstance()
+    const userAddress = await signer.getAddress()
+    // The private key never leaves this closure; the gateway only sees the public key
+    const { publicKey, privateKey } = instance.generateKeypair()
+    const eip712 = instance.createEIP712(publicKey, contractAddress)
+    const signature = await signer.signTypedData(eip712.domain, { Reencrypt: eip712.types.Reencrypt }, eip712.message)
+
+    return {
+      contractAddress,
+      userAddress,
+      publicKey,
+      decrypt: (handle) =>
+        instance.reencrypt(
+          BigInt(handle),
+          privateKey,
+          publicKey,
+          signature.replace('0x', ''),
+          contractAddress,
+          userAddress
+        ),
+    }
+  }
+
+  return { kind: 'fhevm', encryptTerms, createReencryptionSession }
+}
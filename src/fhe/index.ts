@@ -0,0 +1,32 @@
+// Pluggable client-side encryption for debt terms
+//
+// An Encryptor turns plaintext contract units (cents, basis points, days) into
+// bytes32 ciphertext handles plus the input proof the contract requires, and
+// reads them back through a signed reencryption session. On Sepolia, where the
+// contract runs against Zama's fhEVM, this is fhevmjs. Elsewhere a deterministic
+// local mock lets the UI be exercised in dev builds, but its handles are not
+// private and the contract only imports real fhEVM inputs, so it is only used
+// when DEV_CONFIG.ALLOW_MOCK_ENCRYPTION is set.
+
+import { ethers } from 'ethers'
+import { DEV_CONFIG, STATUS_MESSAGES } from '@/constants'
+import { isFHENetwork } from '@/utils/fhe'
+import { createFhevmEncryptor } from './fhevm'
+import { createMockEncryptor } from './mock'
+import { Encryptor } from './types'
+
+const createUnavailableEncryptor = (): Encryptor => {
+  const unavailable = async (): Promise<never> => {
+    throw new Error(STATUS_MESSAGES.ENCRYPTION_UNAVAILABLE)
+  }
+  return { kind: 'unavailable', encryptTerms: unavailable, createReencryptionSession: unavailable }
+}
+
+export const createEncryptor = (chainId: number, ethereum?: ethers.Eip1193Provider): Encryptor => {
+  if (isFHENetwork(chainId)) return createFhevmEncryptor(chainId, ethereum)
+  return DEV_CONFIG.ALLOW_MOCK_ENCRYPTION ? createMockEncryptor() : createUnavailableEncryptor()
+}
+
+export * from './types'
+export { createFhevmEncryptor } from './fhevm'
+export { createMockEncryptor, decryptMockHandle, encryptMockField } from './mock'
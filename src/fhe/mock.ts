@@ -0,0 +1,91 @@
+// Deterministic local encryptor for development and offline use
+//
+// Each handle is the value XOR a keccak pad derived from the contract and the
+// field, so the same inputs always produce the same handle and any account the
+// contract lets read the handle can reverse it. This hides nothing from anyone
+// who knows the scheme - it only exercises the encrypted flow without a coprocessor.
+
+import { ethers } from 'ethers'
+import {
+  assertFitsBits,
+  EncryptedField,
+  EncryptedTerms,
+  Encryptor,
+  PlainTerms,
+  ReencryptionSession,
+  TERM_BITS,
+} from './types'
+
+const coder = ethers.AbiCoder.defaultAbiCoder()
+
+// Same request shape fhevmjs asks wallets to sign
+const REENCRYPT_TYPES = {
+  Reencrypt: [{ name: 'publicKey', type: 'bytes' }],
+}
+
+const pad = (contractAddress: string, field: EncryptedField): bigint => {
+  return BigInt(
+    ethers.keccak256(coder.encode(['string', 'address', 'string'], ['ADM_MOCK_FHE', contractAddress, field]))
+  )
+}
+
+export const encryptMockField = (contractAddress: string, field: EncryptedField, value: bigint) => {
+  assertFitsBits(field, value)
+  return ethers.toBeHex(pad(contractAddress, field) ^ value, 32)
+}
+
+export const decryptMockHandle = (contractAddress: string, field: EncryptedField, handle: string): bigint => {
+  const value = BigInt(handle) ^ pad(contractAddress, field)
+  // Anything wider was not produced by encryptField, e.g. a record stored as a plaintext hash
+  if (value >= 1n << BigInt(TERM_BITS[field])) {
+    throw new Error(`The stored ${field} is not an encrypted input and cannot be decrypted`)
+  }
+  return value
+}
+
+export const createMockEncryptor = (): Encryptor => {
+  const encryptTerms = async (
+    contractAddress: string,
+    userAddress: string,
+    terms: PlainTerms
+  ): Promise<EncryptedTerms> => {
+    const amount = encryptMockField(contractAddress, 'amount', terms.amount)
+    const rate = encryptMockField(contractAddress, 'rate', terms.rate)
+    const term = encryptMockField(contractAddress, 'term', terms.term)
+
+    // Stand-in proof: commits to the handles and who they were made for
+    const inputProof = ethers.keccak256(
+      coder.encode(
+        ['string', 'address', 'address', 'bytes32', 'bytes32', 'bytes32'],
+        ['ADM_MOCK_PROOF', contractAddress, userAddress, amount, rate, term]
+      )
+    )
+
+    return { amount, rate, term, inputProof }
+  }
+
+  const createReencryptionSession = async (
+    signer: ethers.Signer,
+    contractAddress: string
+  ): Promise<ReencryptionSession> => {
+    const userAddress = await signer.getAddress()
+    const { chainId } = await signer.provider!.getNetwork()
+    const publicKey = new ethers.SigningKey(ethers.randomBytes(32)).publicKey
+
+    // Ask for the same signature a real reencryption would need, and check it
+    const domain = { name: 'Authorization token', version: '1', chainId, verifyingContract: contractAddress }
+    const signature = await signer.signTypedData(domain, REENCRYPT_TYPES, { publicKey })
+    if (ethers.verifyTypedData(domain, REENCRYPT_TYPES, { publicKey }, signature) !== userAddress) {
+      throw new Error('Reencryption request was signed by a different account')
+    }
+
+    return {
+      contractAddress,
+      userAddress,
+      publicKey,
+      decrypt: async (handle, field) => decryptMockHandle(contractAddress, field, handle),
+    }
+  }
+
+  return { kind: 'mock', encryptTerms, createReencryptionSession }
+}
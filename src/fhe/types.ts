@@ -0,0 +1,52 @@
+// Encryptor contract shared by the fhevmjs and mock implementations
+
+import type { ethers } from 'ethers'
+
+// 'unavailable' refuses to encrypt: the network has no FHE and the mock is not allowed
+export type EncryptorKind = 'fhevm' | 'mock' | 'unavailable'
+
+// Plaintext terms in contract units
+export interface PlainTerms {
+  amount: bigint
+  rate: bigint
+  term: bigint
+}
+
+export interface EncryptedTerms {
+  amount: string
+  rate: string
+  term: string
+  inputProof: string
+}
+
+export type EncryptedField = keyof PlainTerms
+
+// A signed reencryption request for an ephemeral keypair; decrypts handles the
+// user may read until the page is reloaded
+export interface ReencryptionSession {
+  contractAddress: string
+  userAddress: string
+  publicKey: string
+  decrypt: (handle: string, field: EncryptedField) => Promise<bigint>
+}
+
+export interface Encryptor {
+  kind: EncryptorKind
+  // Inputs are bound to the contract and the account that submits them
+  encryptTerms: (contractAddress: string, userAddress: string, terms: PlainTerms) => Promise<EncryptedTerms>
+  // Prompts the wallet for one EIP-712 signature scoped to the contract
+  createReencryptionSession: (signer: ethers.Signer, contractAddress: string) => Promise<ReencryptionSession>
+}
+
+// Ciphertext bit widths, matching the contract's euint64 amount and euint16 rate/term
+export const TERM_BITS: Record<EncryptedField, number> = {
+  amount: 64,
+  rate: 16,
+  term: 16,
+}
+
+export const assertFitsBits = (field: EncryptedField, value: bigint) => {
+  if (value < 0n || value >= 1n << BigInt(TERM_BITS[field])) {
+    throw new RangeError(`${field} ${value} does not fit in a ${TERM_BITS[field]}-bit encrypted input`)
+  }
+}
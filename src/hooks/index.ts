@@ -1,3 +1,12 @@
 // Export all hooks
 export { useWallet } from './useWallet'
-export { useDebtManager } from './useDebtManager'
\ No newline at end of file
+export { useDebtManager } from './useDebtManager'
+export { useAccessKeys } from './useAccessKeys'
+export { useKeyring } from './useKeyring'
+export { useIndexer } from './useIndexer'
+export { useTransactionManager } from './useTransactionManager'
+export { useDecryption } from './useDecryption'
+export { useTermVerification } from './useTermVerification'
+export { useCreditorInbox } from './useCreditorInbox'
+export { useAdminConsole } from './useAdminConsole'
+export { useRestructurePresets } from './useRestructurePresets'
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { WalletConnection } from '@/types'
+import { CONTRACT_ADDRESS, STATUS_MESSAGES, DEV_CONFIG } from '@/constants'
+import {
+  ACCESS_KEY_TYPES,
+  buildAccessKeyDomain,
+  buildAccessKeyMessage,
+  deriveRootKey,
+  deriveAccessKey,
+} from '@/utils/accessKeys'
+
+export const useAccessKeys = (wallet: WalletConnection) => {
+  const [isUnlocked, setIsUnlocked] = useState(false)
+  // Root key lives in memory only; it is re-derived by signing again after a reload
+  const rootKeyRef = useRef<string | null>(null)
+  const pendingRef = useRef<Promise<string> | null>(null)
+
+  // Forget the root key whenever the account or network changes
+  useEffect(() => {
+    rootKeyRef.current = null
+    pendingRef.current = null
+    setIsUnlocked(false)
+  }, [wallet.account, wallet.chainId])
+
+  const unlock = useCallback(async (): Promise<string> => {
+    if (rootKeyRef.current) return rootKeyRef.current
+    if (pendingRef.current) return pendingRef.current
+
+    if (!wallet.signer || !wallet.account || !wallet.chainId) {
+      throw new Error('Please connect your wallet first!')
+    }
+
+    if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+      console.log('[AccessKeys] INFO:', STATUS_MESSAGES.UNLOCKING_ACCESS_KEYS)
+    }
+
+    pendingRef.current = (async () => {
+      try {
+        const signature: string = await wallet.signer.signTypedData(
+          buildAccessKeyDomain(wallet.chainId!, CONTRACT_ADDRESS),
+          ACCESS_KEY_TYPES,
+          buildAccessKeyMessage(wallet.account!)
+        )
+        const rootKey = deriveRootKey(signature)
+        rootKeyRef.current = rootKey
+        setIsUnlocked(true)
+        return rootKey
+      } finally {
+        pendingRef.current = null
+      }
+    })()
+
+    return pendingRef.current
+  }, [wallet.signer, wallet.account, wallet.chainId])
+
+  const getAccountKey = useCallback(async () => {
+    return deriveAccessKey(await unlock(), 'account')
+  }, [unlock])
+
+  const getDebtKey = useCallback(async (debtId: number | bigint) => {
+    return deriveAccessKey(await unlock(), 'debt', debtId)
+  }, [unlock])
+
+  const getProposalKey = useCallback(async (proposalId: number | bigint) => {
+    return deriveAccessKey(await unlock(), 'proposal', proposalId)
+  }, [unlock])
+
+  const lock = useCallback(() => {
+    rootKeyRef.current = null
+    setIsUnlocked(false)
+  }, [])
+
+  // Memoized so hooks that depend on the key helpers keep stable callbacks
+  return useMemo(() => ({
+    isUnlocked,
+    unlock,
+    lock,
+    getAccountKey,
+    getDebtKey,
+    getProposalKey,
+  }), [isUnlocked, unlock, lock, getAccountKey, getDebtKey, getProposalKey])
+}
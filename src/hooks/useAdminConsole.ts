@@ -0,0 +1,84 @@
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import { WalletConnection } from '@/types'
+import { DEV_CONFIG } from '@/constants'
+import { Projection, selectAuthorizedCreditors } from '@/indexer'
+import { parseContractError } from '@/utils'
+
+export interface ContractStats {
+  totalDebts: number
+  totalProposals: number
+  anonymousDebts: number
+  resolvedDebts: number
+  activeProposals: number
+}
+
+// Read side of the owner console; writes go through useDebtManager's executeTransaction
+export const useAdminConsole = (wallet: WalletConnection, projection: Projection) => {
+  const [isOwner, setIsOwner] = useState(false)
+  const [stats, setStats] = useState<ContractStats | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setIsOwner(false)
+    setStats(null)
+    if (!wallet.contract || !wallet.account) return
+
+    let cancelled = false
+    wallet.contract.owner()
+      .then((owner) => {
+        if (!cancelled) setIsOwner(owner.toLowerCase() === wallet.account!.toLowerCase())
+      })
+      .catch((err) => {
+        if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+          console.warn('[AdminConsole] Could not read contract owner:', err)
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [wallet.contract, wallet.account])
+
+  const loadStats = useCallback(async () => {
+    if (!isOwner || !wallet.contract) return
+
+    try {
+      setIsLoading(true)
+      setError(null)
+      const [totalDebts, totalProposals, anonymous] = await Promise.all([
+        wallet.contract.getTotalDebts(),
+        wallet.contract.getTotalProposals(),
+        wallet.contract.getAnonymousStats(),
+      ])
+      setStats({
+        totalDebts: Number(totalDebts),
+        totalProposals: Number(totalProposals),
+        anonymousDebts: Number(anonymous.totalAnonymous),
+        resolvedDebts: Number(anonymous.totalResolved),
+        activeProposals: Number(anonymous.activeProposals),
+      })
+    } catch (err) {
+      setError(`Failed to load contract stats: ${parseContractError(err)}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [isOwner, wallet.contract])
+
+  useEffect(() => {
+    loadStats()
+  }, [loadStats])
+
+  // Allowlist and audit trail come from CreditorAuthorizationChanged events
+  const creditors = useMemo(() => selectAuthorizedCreditors(projection), [projection])
+  const creditorHistory = useMemo(() => [...projection.creditorChanges].reverse(), [projection])
+
+  return useMemo(() => ({
+    isOwner,
+    stats,
+    creditors,
+    creditorHistory,
+    isLoading,
+    error,
+    loadStats,
+  }), [isOwner, stats, creditors, creditorHistory, isLoading, error, loadStats])
+}
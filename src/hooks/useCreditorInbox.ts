@@ -0,0 +1,138 @@
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import { DebtRecord, ProposalStatus, RestructuringProposal, WalletConnection } from '@/types'
+import { DEV_CONFIG } from '@/constants'
+import { batchRead, decodeDebtInfo, decodeProposalInfo } from '@/contract'
+import { Projection, selectPendingProposals } from '@/indexer'
+import { KeyringEntityKind } from '@/keyring'
+import { parseContractError } from '@/utils'
+import { openWithAccessKey } from '@/utils/accessKeys'
+
+export interface CreditorInboxItem {
+  proposal: RestructuringProposal
+  // Terms the proposal would replace; null when the debt could not be read
+  debt: DebtRecord | null
+  // Whether a shared proposal key is available to seal a review note
+  canSealNote: boolean
+}
+
+// Authorized creditors can read and process every proposal, so the inbox is built
+// from indexed PENDING proposals rather than the account's own proposal list
+export const useCreditorInbox = (
+  wallet: WalletConnection,
+  projection: Projection,
+  lookupKey: (kind: KeyringEntityKind, entityId: number | bigint) => Promise<string | null>
+) => {
+  const [isCreditor, setIsCreditor] = useState(false)
+  const [inbox, setInbox] = useState<CreditorInboxItem[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Re-checked when the indexer sees an allowlist change
+  const creditorChangeCount = projection.creditorChanges.length
+
+  useEffect(() => {
+    setIsCreditor(false)
+    setInbox([])
+    if (!wallet.contract || !wallet.account) return
+
+    let cancelled = false
+    wallet.contract.authorizedCreditors(wallet.account)
+      .then((authorized) => {
+        if (!cancelled) setIsCreditor(authorized)
+      })
+      .catch((err) => {
+        if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+          console.warn('[CreditorInbox] Could not check creditor role:', err)
+        }
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [wallet.contract, wallet.account, creditorChangeCount])
+
+  const pendingIds = useMemo(() => {
+    return selectPendingProposals(projection).map((proposal) => proposal.id).join(',')
+  }, [projection])
+
+  const loadInbox = useCallback(async () => {
+    if (!isCreditor || !wallet.contract || !wallet.account) return
+
+    try {
+      setIsLoading(true)
+      setError(null)
+
+      const batchOptions = { from: wallet.account, chainId: wallet.chainId }
+      const proposalIds = pendingIds ? pendingIds.split(',').map(Number) : []
+      const proposalResults = await batchRead(
+        wallet.contract,
+        'getAnonymousProposalInfo',
+        proposalIds.map((id) => [id] as [number]),
+        batchOptions
+      )
+
+      // Still pending on-chain and not yet signed off by a creditor
+      const awaiting = proposalResults.flatMap((result, i) => {
+        if (!result.ok || result.value.creditorApproved || Number(result.value.status) !== ProposalStatus.PENDING) return []
+        return [{ id: proposalIds[i], raw: result.value }]
+      })
+
+      const debtIds = [...new Set(awaiting.map((item) => Number(item.raw.debtId)))]
+      const debtResults = await batchRead(
+        wallet.contract,
+        'getAnonymousDebtInfo',
+        debtIds.map((id) => [id] as [number]),
+        batchOptions
+      )
+      // A malformed record is skipped rather than emptying the whole inbox
+      const debts = new Map<number, DebtRecord>()
+      debtResults.forEach((result, i) => {
+        if (!result.ok) return
+        try {
+          debts.set(debtIds[i], decodeDebtInfo(debtIds[i], result.value))
+        } catch (err) {
+          if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+            console.warn('[CreditorInbox] Could not decode debt:', debtIds[i], err)
+          }
+        }
+      })
+
+      const items: CreditorInboxItem[] = []
+      for (const { id, raw } of awaiting) {
+        try {
+          const proposal = decodeProposalInfo(id, raw)
+          // Reasons are sealed for the parties; creditors read them only with a shared key
+          const proposalKey = await lookupKey('proposal', id)
+          const reason = proposalKey ? await openWithAccessKey(proposalKey, proposal.reason) : null
+          items.push({
+            proposal: { ...proposal, reason: reason ?? '🔐 Encrypted' },
+            debt: debts.get(proposal.debtId) ?? null,
+            canSealNote: proposalKey !== null,
+          })
+        } catch (err) {
+          if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+            console.warn('[CreditorInbox] Could not decode proposal:', id, err)
+          }
+        }
+      }
+
+      setInbox(items.sort((a, b) => a.proposal.proposedAt - b.proposal.proposedAt))
+    } catch (err) {
+      setError(`Failed to load creditor inbox: ${parseContractError(err)}`)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [isCreditor, wallet.contract, wallet.account, wallet.chainId, pendingIds, lookupKey])
+
+  // Reload whenever the set of indexed pending proposals changes
+  useEffect(() => {
+    loadInbox()
+  }, [loadInbox])
+
+  return useMemo(() => ({
+    isCreditor,
+    inbox,
+    isLoading,
+    error,
+    loadInbox,
+  }), [isCreditor, inbox, isLoading, error, loadInbox])
+}
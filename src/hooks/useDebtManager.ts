@@ -1,12 +1,49 @@
-import { useState, useCallback, useEffect } from 'react'
-import { DebtRecord, RestructuringProposal, CreateDebtForm, ProposeRestructuringForm, WalletConnection } from '@/types'
-import { STATUS_MESSAGES, GAS_LIMITS, TRANSACTION_CONFIG, DEV_CONFIG, EXPLORER_URLS } from '@/constants'
-import { parseContractError } from '@/utils'
-import { 
-  validateAmount,
-  validateRate,
-  validateTerm
-} from '@/utils/fhe'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { ethers } from 'ethers'
+import {
+  DebtRecord,
+  DebtStatus,
+  RestructuringProposal,
+  CreateDebtForm,
+  ProposeRestructuringForm,
+  WalletConnection,
+} from '@/types'
+import {
+  STATUS_MESSAGES,
+  GAS_LIMITS,
+  TRANSACTION_CONFIG,
+  DEV_CONFIG,
+  EXPLORER_URLS,
+  CONTRACT_ADDRESS,
+  PRIVACY_LEVELS,
+} from '@/constants'
+import { formatAddress, isValidEthereumAddress, parseContractError } from '@/utils'
+import { sealWithAccessKey, openWithAccessKey, sealedKeyId, isSealedText } from '@/utils/accessKeys'
+import { FeeQuotes, FeeTier, formatGwei, getFeeQuotes, toFeeOverrides, withGasBuffer } from '@/utils/fees'
+import {
+  batchRead,
+  ContractRevertError,
+  decodeRevert,
+  DebtManagerArgs,
+  DebtManagerWriteMethod,
+  DecodeError,
+  decodeDebtInfo,
+  decodeProposalInfo,
+  toContractAmount,
+  toContractRate,
+  toContractTerm,
+} from '@/contract'
+import { isAccountLog, selectAccountDebts, selectAccountProposals } from '@/indexer'
+import { createEncryptor } from '@/fhe'
+import { firstError, hasErrors, proposalContextFor, validateCreateDebt, validateProposal } from '@/utils/validation'
+import { useAccessKeys } from './useAccessKeys'
+import { useKeyring } from './useKeyring'
+import { useIndexer } from './useIndexer'
+import { useTransactionManager, isRetryable } from './useTransactionManager'
+import { useDecryption, decryptedDebtTerms } from './useDecryption'
+import { useCreditorInbox } from './useCreditorInbox'
+import { useAdminConsole } from './useAdminConsole'
+import { useTermVerification } from './useTermVerification'
 
 export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHash: string) => void) => {
   const [userDebts, setUserDebts] = useState<DebtRecord[]>([])
@@ -15,6 +52,29 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
   const [error, setError] = useState<string | null>(null)
   const [transactionStatus, setTransactionStatus] = useState<string | null>(null)
   const [estimatedGas, setEstimatedGas] = useState<string | null>(null)
+  const [feeTier, setFeeTier] = useState<FeeTier>(TRANSACTION_CONFIG.feeTier)
+  const [feeQuotes, setFeeQuotes] = useState<FeeQuotes | null>(null)
+  const [feeWarning, setFeeWarning] = useState<string | null>(null)
+  const [simulationError, setSimulationError] = useState<ContractRevertError | null>(null)
+  // Explicit user override to send the next write even though its simulation reverted
+  const [allowFailedSimulation, setAllowFailedSimulation] = useState(false)
+  const accessKeys = useAccessKeys(wallet)
+  const { getDebtKey, getProposalKey } = accessKeys
+  const keyring = useKeyring(wallet)
+  const { lookupKey } = keyring
+  const indexer = useIndexer(wallet)
+  const { projection, lastLiveLog, isLive } = indexer
+  // Read by loadUserData without making every indexed event recreate it
+  const projectionRef = useRef(projection)
+  projectionRef.current = projection
+  const transactions = useTransactionManager(wallet)
+  const { track, recordFailure } = transactions
+  const decryption = useDecryption(wallet)
+  const termVerification = useTermVerification(wallet, projection)
+  const creditor = useCreditorInbox(wallet, projection, lookupKey)
+  const admin = useAdminConsole(wallet, projection)
+  // fhevmjs on the fhEVM network; elsewhere the local mock, when allowed
+  const encryptor = useMemo(() => createEncryptor(Number(wallet.chainId ?? 0)), [wallet.chainId])
 
   const setStatus = useCallback((message: string, isError = false) => {
     if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
@@ -31,20 +91,26 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
   }, [])
 
   // Gas estimation helper
-  const estimateGas = useCallback(async (contractMethod: string, params: any[], gasLimit: number) => {
+  const estimateGas = useCallback(async <M extends DebtManagerWriteMethod>(
+    contractMethod: M,
+    params: DebtManagerArgs<M>,
+    gasLimit: number
+  ) => {
     if (!wallet.provider || !wallet.contract) return null
 
     try {
       setStatus(STATUS_MESSAGES.ESTIMATING_GAS)
       
-      // Get current gas price
-      const feeData = await wallet.provider.getFeeData()
-      const gasPrice = feeData.gasPrice || BigInt('20000000000') // 20 gwei fallback
+      // Price the selected fee tier from recent blocks
+      const quotes = await getFeeQuotes(wallet.provider)
+      const quote = quotes[feeTier]
+      setFeeQuotes(quotes)
+      setFeeWarning(quote.isHighBaseFee ? STATUS_MESSAGES.HIGH_GAS_WARNING : null)
       
       // Estimate gas for the transaction
       let estimatedGas: bigint
       try {
-        estimatedGas = await wallet.contract[contractMethod].estimateGas(...params)
+        estimatedGas = await wallet.contract.estimateGas(contractMethod, params)
       } catch (error) {
         // Use default gas limit if estimation fails
         estimatedGas = BigInt(gasLimit)
@@ -53,12 +119,12 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
         }
       }
       
-      // Add 20% buffer to estimated gas
-      const gasWithBuffer = (estimatedGas * BigInt(120)) / BigInt(100)
-      const totalCost = gasWithBuffer * gasPrice
+      // Add a safety buffer to estimated gas
+      const gasWithBuffer = withGasBuffer(estimatedGas)
+      const totalCost = gasWithBuffer * quote.expectedPricePerGas
       const costInEth = Number(totalCost) / 1e18
       
-      const gasInfo = `Gas: ${gasWithBuffer.toString()}, Cost: ~${costInEth.toFixed(6)} ETH`
+      const gasInfo = `Gas: ${gasWithBuffer.toString()}, Fee: ${formatGwei(quote.expectedPricePerGas)} (${feeTier}), Cost: ~${costInEth.toFixed(6)} ETH`
       setEstimatedGas(gasInfo)
       
       if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
@@ -66,14 +132,17 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
           method: contractMethod,
           estimatedGas: estimatedGas.toString(),
           gasWithBuffer: gasWithBuffer.toString(),
-          gasPrice: gasPrice.toString(),
+          feeTier,
+          feeType: quote.type,
+          baseFeePerGas: quote.baseFeePerGas.toString(),
+          expectedPricePerGas: quote.expectedPricePerGas.toString(),
           costInEth: costInEth.toFixed(6)
         })
       }
       
       return {
         gasLimit: gasWithBuffer,
-        gasPrice,
+        fees: toFeeOverrides(quote),
         costInEth
       }
     } catch (error) {
@@ -83,12 +152,28 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
       setStatus(STATUS_MESSAGES.GAS_ESTIMATION_FAILED, true)
       return null
     }
-  }, [wallet.provider, wallet.contract, setStatus])
+  }, [wallet.provider, wallet.contract, feeTier, setStatus])
+
+  // Quote every fee tier so the user can pick one before sending
+  const refreshFeeQuotes = useCallback(async () => {
+    if (!wallet.provider) return null
+    try {
+      const quotes = await getFeeQuotes(wallet.provider)
+      setFeeQuotes(quotes)
+      setFeeWarning(quotes.normal.isHighBaseFee ? STATUS_MESSAGES.HIGH_GAS_WARNING : null)
+      return quotes
+    } catch (error) {
+      if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+        console.warn('[AnonymousDebtManager] Fee quote failed:', error)
+      }
+      return null
+    }
+  }, [wallet.provider])
 
   // Transaction execution helper with proper confirmation handling
-  const executeTransaction = useCallback(async (
-    contractMethod: string,
-    params: any[],
+  const executeTransaction = useCallback(async <M extends DebtManagerWriteMethod>(
+    contractMethod: M,
+    params: DebtManagerArgs<M>,
     gasLimit: number,
     description: string
   ) => {
@@ -96,7 +181,28 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
       throw new Error('Contract or signer not available')
     }
 
+    let submitted = false
     try {
+      // Simulate the call unsigned so a revert surfaces before the user signs
+      setStatus(STATUS_MESSAGES.SIMULATING_TRANSACTION)
+      try {
+        await wallet.contract.staticCall(contractMethod, params)
+        setSimulationError(null)
+      } catch (error) {
+        const simulationFailure = decodeRevert(error, contractMethod)
+          ?? new ContractRevertError(contractMethod, null, error)
+        setSimulationError(simulationFailure)
+        if (!allowFailedSimulation) {
+          throw simulationFailure
+        }
+        if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+          console.warn('[AnonymousDebtManager] Sending despite failed simulation:', simulationFailure)
+        }
+      } finally {
+        // The override covers a single submission
+        setAllowFailedSimulation(false)
+      }
+
       // Estimate gas first
       const gasEstimate = await estimateGas(contractMethod, params, gasLimit)
       if (!gasEstimate) {
@@ -106,11 +212,11 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
       setStatus(`${description} - Preparing transaction...`)
       
       // Execute the transaction with estimated gas
-      const tx = await wallet.contract[contractMethod](...params, {
+      const tx = await wallet.contract.send(contractMethod, params, {
         gasLimit: gasEstimate.gasLimit,
-        maxFeePerGas: TRANSACTION_CONFIG.maxFeePerGas,
-        maxPriorityFeePerGas: TRANSACTION_CONFIG.maxPriorityFeePerGas,
+        ...gasEstimate.fees,
       })
+      submitted = true
       
       if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
         console.log(`[AnonymousDebtManager] Transaction submitted:`, {
@@ -128,9 +234,14 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
       setStatus(STATUS_MESSAGES.TRANSACTION_PENDING)
       setEstimatedGas(null)
       
-      // Wait for confirmation
+      // Wait for confirmation; the tracker persists it so a reload can resume waiting
       setStatus(STATUS_MESSAGES.TRANSACTION_CONFIRMING)
-      const receipt = await tx.wait(TRANSACTION_CONFIG.confirmations)
+      const receipt = await track(tx, {
+        method: contractMethod,
+        params,
+        description,
+        gasLimit,
+      })
       
       if (receipt.status === 1) {
         setStatus(STATUS_MESSAGES.TRANSACTION_SUCCESS)
@@ -153,14 +264,38 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
       if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
         console.error(`[AnonymousDebtManager] Transaction failed:`, error)
       }
+      // Submitted writes are already in the history; record the rest so they can be retried
+      if (!submitted) {
+        recordFailure({ method: contractMethod, params, description, gasLimit }, error)
+      }
       
-      if (error.code === 4001) {
+      if (error instanceof ContractRevertError) {
+        throw new Error(`${STATUS_MESSAGES.SIMULATION_FAILED}: ${parseContractError(error)}`)
+      } else if (error.code === 4001) {
         throw new Error(STATUS_MESSAGES.TRANSACTION_REJECTED)
+      } else if (ethers.isError(error, 'TIMEOUT')) {
+        throw new Error(STATUS_MESSAGES.TRANSACTION_TIMEOUT)
+      } else if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+        throw new Error(STATUS_MESSAGES.TRANSACTION_CANCELLED)
       } else {
         throw new Error(`${STATUS_MESSAGES.TRANSACTION_FAILED}: ${parseContractError(error)}`)
       }
     }
-  }, [wallet.contract, wallet.signer, estimateGas, addTransaction, setStatus])
+  }, [wallet.contract, wallet.signer, allowFailedSimulation, estimateGas, addTransaction, track, recordFailure, setStatus])
+
+  // Keys shared with us first, then the one our wallet derives for the id the text was sealed under.
+  // Plaintext never asks for a signature, and deriveKey = false skips the wallet-derived key.
+  const openSealedText = useCallback(async (kind: 'debt' | 'proposal', id: bigint, value: string, deriveKey = true) => {
+    if (!isSealedText(value)) return value
+    const sharedKey = await lookupKey(kind, id)
+    if (sharedKey) {
+      const opened = await openWithAccessKey(sharedKey, value)
+      if (opened !== null) return opened
+    }
+    if (!deriveKey) return null
+    const keyId = sealedKeyId(value) ?? id
+    return openWithAccessKey(kind === 'debt' ? await getDebtKey(keyId) : await getProposalKey(keyId), value)
+  }, [lookupKey, getDebtKey, getProposalKey])
 
   const loadUserData = useCallback(async () => {
     if (!wallet.isConnected || !wallet.contract || !wallet.account) return
@@ -169,72 +304,113 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
       setIsLoading(true)
       setStatus(STATUS_MESSAGES.LOADING_DATA)
 
-      // Generate anonymous access key for this session
-      const anonymousAccessKey = `0x${Math.random().toString(16).substr(2, 64)}`
+      // Malformed responses are reported rather than silently skipped
+      const decodeErrors: DecodeError[] = []
+      const batchOptions = { from: wallet.account, chainId: wallet.chainId }
+      const contract = wallet.contract
+
+      // A declined access-key signature leaves every sealed text of this load locked
+      // rather than dropping the records or prompting again for each one
+      let keysDeclined = false
+      const openText = async (kind: 'debt' | 'proposal', id: bigint, value: string) => {
+        try {
+          return await openSealedText(kind, id, value, !keysDeclined)
+        } catch (error) {
+          if (!ethers.isError(error, 'ACTION_REJECTED') && (error as any)?.code !== 4001) throw error
+          keysDeclined = true
+          return openSealedText(kind, id, value, false)
+        }
+      }
+
+      // Shared by both loaders: proposals against these debts are loaded with the user's own
+      const ownDebtIds = contract.getUserDebts(wallet.account!)
 
       // Load user anonymous debts
-      try {
-        const debtIds = await wallet.contract.getUserAnonymousDebts(wallet.account, anonymousAccessKey)
+      const loadDebts = async () => {
+        const debtIds = await ownDebtIds
+        const results = await batchRead(contract, 'getAnonymousDebtInfo', debtIds.map((id) => [id] as [bigint]), batchOptions)
         const debts: DebtRecord[] = []
 
-        for (const debtId of debtIds) {
+        for (const [i, result] of results.entries()) {
+          const debtId = debtIds[i]
+          if (!result.ok) {
+            // Skip debts we don't have access to
+            if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+              console.warn('[AnonymousDebtManager] No access to debt:', debtId)
+            }
+            continue
+          }
           try {
-            const debtInfo = await wallet.contract.getAnonymousDebtInfo(debtId, anonymousAccessKey)
+            const debt = decodeDebtInfo(debtId, result.value)
             debts.push({
-              id: Number(debtId),
-              debtor: wallet.account,
-              amount: Number(debtInfo[3]) / 100, // Convert from cents
-              interestRate: Number(debtInfo[4]) / 100, // Convert from basis points
-              originalTerm: Number(debtInfo[4]),
-              remainingTerm: Number(debtInfo[4]),
-              createdAt: Number(debtInfo[3]),
-              status: debtInfo[5],
-              isAnonymous: debtInfo[6],
+              ...debt,
+              description: (await openText('debt', debtId, debt.description)) ?? '🔐 Encrypted',
             })
           } catch (error) {
-            // Skip debts we don't have access to
-            if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
-              console.warn('[AnonymousDebtManager] No access to debt:', debtId)
+            if (error instanceof DecodeError) {
+              decodeErrors.push(error)
+            } else if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+              console.warn('[AnonymousDebtManager] Could not open debt:', debtId, error)
             }
           }
         }
-        setUserDebts(debts)
-      } catch (error) {
-        // Fallback to empty array if no anonymous debts
-        setUserDebts([])
-        if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
-          console.log('[AnonymousDebtManager] No anonymous debts found for user')
-        }
+        return debts
       }
 
-      // Load user anonymous proposals
-      try {
-        const proposalIds = await wallet.contract.getUserAnonymousProposals(wallet.account, anonymousAccessKey)
+      // Load the user's proposals and those submitted against the user's debts
+      const loadProposals = async () => {
+        const [submittedIds, debtIds] = await Promise.all([contract.getUserProposals(wallet.account!), ownDebtIds])
+        // The contract only indexes proposals by proposer, so received ones come from the events
+        const ownedDebts = new Set(debtIds.map(Number))
+        const receivedIds = Object.values(projectionRef.current.proposals)
+          .filter((proposal) => ownedDebts.has(proposal.debtId))
+          .map((proposal) => BigInt(proposal.id))
+        const proposalIds = [...new Set([...submittedIds, ...receivedIds])]
+        const results = await batchRead(contract, 'getAnonymousProposalInfo', proposalIds.map((id) => [id] as [bigint]), batchOptions)
         const proposals: RestructuringProposal[] = []
 
-        for (const proposalId of proposalIds) {
+        for (const [i, result] of results.entries()) {
+          const proposalId = proposalIds[i]
+          if (!result.ok) {
+            // Skip proposals we don't have access to
+            if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+              console.warn('[AnonymousDebtManager] No access to proposal:', proposalId)
+            }
+            continue
+          }
           try {
-            const proposalInfo = await wallet.contract.getAnonymousProposalInfo(proposalId, anonymousAccessKey)
+            const proposal = decodeProposalInfo(proposalId, result.value)
             proposals.push({
-              id: Number(proposalId),
-              debtId: Number(proposalInfo[0]),
-              proposer: wallet.account,
-              newAmount: Number(proposalInfo[1]) / 100, // Convert from cents  
-              newRate: Number(proposalInfo[2]) / 100, // Convert from basis points
-              newTerm: Number(proposalInfo[3]),
-              proposedAt: Number(proposalInfo[4]),
-              status: proposalInfo[5],
-              reason: proposalInfo[7],
+              ...proposal,
+              reason: (await openText('proposal', proposalId, proposal.reason)) ?? '🔐 Encrypted',
             })
           } catch (error) {
-            // Skip proposals we don't have access to
-            if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
-              console.warn('[AnonymousDebtManager] No access to proposal:', proposalId)
+            if (error instanceof DecodeError) {
+              decodeErrors.push(error)
+            } else if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+              console.warn('[AnonymousDebtManager] Could not open proposal:', proposalId, error)
             }
           }
         }
-        setUserProposals(proposals)
-      } catch (error) {
+        return proposals
+      }
+
+      // Started together so both batches go out in the same round-trip window
+      const [debts, proposals] = await Promise.allSettled([loadDebts(), loadProposals()])
+
+      if (debts.status === 'fulfilled') {
+        setUserDebts(debts.value)
+      } else {
+        // Fallback to empty array if no anonymous debts
+        setUserDebts([])
+        if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+          console.log('[AnonymousDebtManager] No anonymous debts found for user')
+        }
+      }
+
+      if (proposals.status === 'fulfilled') {
+        setUserProposals(proposals.value)
+      } else {
         // Fallback to empty array if no anonymous proposals
         setUserProposals([])
         if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
@@ -242,14 +418,23 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
         }
       }
 
-      setStatus('Data loaded successfully!')
+      if (decodeErrors.length > 0) {
+        if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+          console.error('[AnonymousDebtManager] Decode errors:', decodeErrors)
+        }
+        setStatus(`${decodeErrors.length} record(s) could not be read. ${decodeErrors[0].message}`, true)
+      } else if (keysDeclined) {
+        setStatus(STATUS_MESSAGES.ACCESS_KEYS_DECLINED, true)
+      } else {
+        setStatus('Data loaded successfully!')
+      }
     } catch (error: any) {
       const errorMessage = parseContractError(error)
       setStatus(`Failed to load data: ${errorMessage}`, true)
     } finally {
       setIsLoading(false)
     }
-  }, [wallet, setStatus])
+  }, [wallet, openSealedText, setStatus])
 
   const createDebt = useCallback(
     async (formData: CreateDebtForm) => {
@@ -262,42 +447,52 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
         setIsLoading(true)
         setStatus('Preparing FHE-style debt creation...')
 
+        // Same schema the form validates against
+        const errors = validateCreateDebt(formData)
+        if (hasErrors(errors)) {
+          throw new Error(firstError(errors))
+        }
+
         const amount = parseFloat(formData.amount)
         const rate = parseFloat(formData.interestRate)
         const termDays = parseInt(formData.termDays)
 
-        // Validate inputs
-        if (!validateAmount(amount)) {
-          throw new Error('Amount must be between $0.01 and $10,000,000')
-        }
-        if (!validateRate(rate)) {
-          throw new Error('Interest rate must be between 0% and 100%')
-        }
-        if (!validateTerm(termDays)) {
-          throw new Error('Term must be between 1 day and 100 years')
-        }
-
+        // Encrypt in contract format (cents, basis points, days) so no term is sent in plaintext
+        setStatus(STATUS_MESSAGES.ENCRYPTING_INPUTS)
+        const encrypted = await encryptor.encryptTerms(CONTRACT_ADDRESS, wallet.account!, {
+          amount: toContractAmount(amount),
+          rate: toContractRate(rate),
+          term: toContractTerm(termDays),
+        })
         setStatus(STATUS_MESSAGES.CREATING_DEBT)
 
-        // Convert to contract format (cents and basis points)
-        const amountInCents = Math.round(amount * 100)
-        const rateInBasisPoints = Math.round(rate * 100)
-
-        // Generate anonymous access key for privacy
-        const anonymousAccessKey = `0x${Math.random().toString(16).substr(2, 64)}`
+        // Seal the description under the key of the id the record should be assigned; the id is
+        // stored with the text, so the key can be derived again even if another debt takes it
+        const expectedDebtId = await wallet.contract.nextDebtId()
+        const encryptedDescription = await sealWithAccessKey(
+          await getDebtKey(expectedDebtId),
+          formData.description || '',
+          expectedDebtId
+        )
 
-        const params = [amountInCents, rateInBasisPoints, termDays, anonymousAccessKey]
-        
         const result = await executeTransaction(
-          'createAnonymousDebt',
-          params,
+          'createEncryptedDebt',
+          [
+            encrypted.amount,
+            encrypted.rate,
+            encrypted.term,
+            encrypted.inputProof,
+            formData.isAnonymous,
+            encryptedDescription,
+          ],
           GAS_LIMITS.CREATE_DEBT,
           'Creating anonymous encrypted debt record'
         )
 
         if (result.success) {
           setStatus('Anonymous FHE-style debt record created successfully! 🔐👤')
-          await loadUserData()
+          // Otherwise the live event subscription triggers the refresh
+          if (!isLive) await loadUserData()
           return true
         }
         return false
@@ -308,7 +503,7 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
         setIsLoading(false)
       }
     },
-    [wallet, setStatus, loadUserData, executeTransaction]
+    [wallet, encryptor, getDebtKey, setStatus, loadUserData, executeTransaction, isLive]
   )
 
   const proposeRestructuring = useCallback(
@@ -322,49 +517,57 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
         setIsLoading(true)
         setStatus('Preparing restructuring proposal...')
 
+        const debt = userDebts.find((record) => record.id === parseInt(formData.selectedDebtId))
+        if (!debt) {
+          throw new Error(`Debt #${formData.selectedDebtId} is not one of your loaded debts`)
+        }
+
+        // Same schema the form validates against, measured from the same decrypted terms
+        const currentTerms = decryptedDebtTerms(decryption.values, debt.id)
+        const errors = validateProposal(formData, currentTerms && proposalContextFor(debt, currentTerms))
+        if (hasErrors(errors)) {
+          throw new Error(firstError(errors))
+        }
+
         const amount = parseFloat(formData.newAmount)
         const rate = parseFloat(formData.newRate)
         const termDays = parseInt(formData.newTerm)
 
-        // Validate inputs
-        if (!validateAmount(amount)) {
-          throw new Error('New amount must be between $0.01 and $10,000,000')
-        }
-        if (!validateRate(rate)) {
-          throw new Error('New interest rate must be between 0% and 100%')
-        }
-        if (!validateTerm(termDays)) {
-          throw new Error('New term must be between 1 day and 100 years')
-        }
-
+        // Encrypt in contract format (cents, basis points, days) so no term is sent in plaintext
+        setStatus(STATUS_MESSAGES.ENCRYPTING_INPUTS)
+        const encrypted = await encryptor.encryptTerms(CONTRACT_ADDRESS, wallet.account!, {
+          amount: toContractAmount(amount),
+          rate: toContractRate(rate),
+          term: toContractTerm(termDays),
+        })
         setStatus(STATUS_MESSAGES.PROPOSING_RESTRUCTURING)
 
-        // Convert to contract format (cents and basis points)
-        const amountInCents = Math.round(amount * 100)
-        const rateInBasisPoints = Math.round(rate * 100)
-
-        // Generate anonymous access key for privacy
-        const anonymousAccessKey = `0x${Math.random().toString(16).substr(2, 64)}`
-
-        const params = [
-          parseInt(formData.selectedDebtId),
-          amountInCents,
-          rateInBasisPoints,
-          termDays,
+        // Seal the reason the same way, recording the predicted proposal id with it
+        const expectedProposalId = await wallet.contract.nextProposalId()
+        const encryptedReason = await sealWithAccessKey(
+          await getProposalKey(expectedProposalId),
           formData.reason || 'Anonymous debt restructuring request',
-          anonymousAccessKey
-        ]
-        
+          expectedProposalId
+        )
+
         const result = await executeTransaction(
-          'proposeAnonymousRestructuring',
-          params,
+          'proposeEncryptedRestructuring',
+          [
+            parseInt(formData.selectedDebtId),
+            encrypted.amount,
+            encrypted.rate,
+            encrypted.term,
+            encrypted.inputProof,
+            encryptedReason,
+          ],
           GAS_LIMITS.PROPOSE_RESTRUCTURING,
           'Submitting anonymous restructuring proposal'
         )
 
         if (result.success) {
           setStatus('Anonymous FHE-style restructuring proposal submitted successfully! 🔐📋👤')
-          await loadUserData()
+          // Otherwise the live event subscription triggers the refresh
+          if (!isLive) await loadUserData()
           return true
         }
         return false
@@ -375,7 +578,7 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
         setIsLoading(false)
       }
     },
-    [wallet, setStatus, loadUserData, executeTransaction]
+    [wallet, encryptor, userDebts, decryption.values, getProposalKey, setStatus, loadUserData, executeTransaction, isLive]
   )
 
   const approveProposal = useCallback(
@@ -389,21 +592,17 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
         setIsLoading(true)
         setStatus(STATUS_MESSAGES.APPROVING_PROPOSAL)
 
-        // Generate anonymous access key for privacy
-        const anonymousAccessKey = `0x${Math.random().toString(16).substr(2, 64)}`
-
-        const params = [proposalId, approve, anonymousAccessKey]
-        
         const result = await executeTransaction(
           'processAnonymousProposal',
-          params,
+          [proposalId, approve],
           GAS_LIMITS.APPROVE_PROPOSAL,
           `${approve ? 'Approving' : 'Rejecting'} anonymous restructuring proposal`
         )
 
         if (result.success) {
           setStatus(`Anonymous proposal ${approve ? 'approved' : 'rejected'} successfully! 👤`)
-          await loadUserData()
+          // Otherwise the live event subscription triggers the refresh
+          if (!isLive) await loadUserData()
           return true
         }
         return false
@@ -414,7 +613,55 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
         setIsLoading(false)
       }
     },
-    [wallet, setStatus, loadUserData, executeTransaction]
+    [wallet, setStatus, loadUserData, executeTransaction, isLive]
+  )
+
+  // Creditor sign-off with a note; without a shared proposal key the note can only be sent unencrypted
+  const reviewProposal = useCallback(
+    async (proposalId: number, approve: boolean, note: string, allowPublicNote = false) => {
+      if (!wallet.isConnected || !wallet.contract) {
+        setStatus('Please connect your wallet first!', true)
+        return false
+      }
+
+      try {
+        setIsLoading(true)
+
+        let encryptedNote = ''
+        if (note.trim()) {
+          const proposalAccessKey = await lookupKey('proposal', proposalId)
+          if (proposalAccessKey) {
+            encryptedNote = await sealWithAccessKey(proposalAccessKey, note.trim())
+          } else if (allowPublicNote) {
+            encryptedNote = note.trim()
+          } else {
+            throw new Error('No shared key for this proposal - the note would be public. Confirm sending it unencrypted or leave it empty.')
+          }
+        }
+
+        setStatus(STATUS_MESSAGES.APPROVING_PROPOSAL)
+        const result = await executeTransaction(
+          'reviewAnonymousProposal',
+          [proposalId, approve, encryptedNote],
+          GAS_LIMITS.REVIEW_PROPOSAL,
+          `${approve ? 'Approving' : 'Rejecting'} proposal #${proposalId} as creditor`
+        )
+
+        if (result.success) {
+          setStatus(`Proposal #${proposalId} ${approve ? 'approved' : 'rejected'} as creditor ✅`)
+          await creditor.loadInbox()
+          if (!isLive) await loadUserData()
+          return true
+        }
+        return false
+      } catch (error: any) {
+        setStatus(error.message || `Failed to review proposal: ${parseContractError(error)}`, true)
+        return false
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [wallet, lookupKey, creditor, setStatus, loadUserData, executeTransaction, isLive]
   )
 
   const executeProposal = useCallback(
@@ -428,18 +675,21 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
         setIsLoading(true)
         setStatus(STATUS_MESSAGES.EXECUTING_PROPOSAL)
 
-        const params = [proposalId]
-        
         const result = await executeTransaction(
-          'executeProposal',
-          params,
+          'executeAnonymousRestructuring',
+          [proposalId],
           GAS_LIMITS.EXECUTE_PROPOSAL,
           'Executing approved restructuring proposal'
         )
 
         if (result.success) {
           setStatus('Proposal executed successfully! 🚀')
-          await loadUserData()
+          // The debt now holds the proposal's terms; its earlier values stay readable as 'replaced'
+          const debtId = projection.proposals[proposalId]?.debtId
+            ?? userProposals.find((proposal) => proposal.id === proposalId)?.debtId
+          if (debtId !== undefined) decryption.forget('debt', debtId)
+          // Otherwise the live event subscription triggers the refresh
+          if (!isLive) await loadUserData()
           return true
         }
         return false
@@ -450,7 +700,7 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
         setIsLoading(false)
       }
     },
-    [wallet, setStatus, loadUserData, executeTransaction]
+    [wallet, projection, userProposals, decryption, setStatus, loadUserData, executeTransaction, isLive]
   )
 
   const markDebtResolved = useCallback(
@@ -464,21 +714,17 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
         setIsLoading(true)
         setStatus(STATUS_MESSAGES.MARKING_RESOLVED)
 
-        // Generate anonymous access key for privacy
-        const anonymousAccessKey = `0x${Math.random().toString(16).substr(2, 64)}`
-
-        const params = [debtId, anonymousAccessKey]
-        
         const result = await executeTransaction(
-          'finalizeAnonymousDebt',
-          params,
+          'resolveAnonymousDebt',
+          [debtId],
           GAS_LIMITS.MARK_RESOLVED,
           'Finalizing anonymous debt resolution'
         )
 
         if (result.success) {
           setStatus('Anonymous debt finalized successfully! ✅👤')
-          await loadUserData()
+          // Otherwise the live event subscription triggers the refresh
+          if (!isLive) await loadUserData()
           return true
         }
         return false
@@ -489,30 +735,367 @@ export const useDebtManager = (wallet: WalletConnection, addTransaction?: (txHas
         setIsLoading(false)
       }
     },
-    [wallet, setStatus, loadUserData, executeTransaction]
+    [wallet, setStatus, loadUserData, executeTransaction, isLive]
   )
 
-  // Load data when wallet connects
+  const grantAccess = useCallback(
+    async (debtId: number, address: string) => {
+      if (!wallet.isConnected || !wallet.contract) {
+        setStatus('Please connect your wallet first!', true)
+        return false
+      }
+      if (!isValidEthereumAddress(address)) {
+        setStatus('Please enter a valid Ethereum address (0x followed by 40 hex characters)', true)
+        return false
+      }
+
+      try {
+        setIsLoading(true)
+        setStatus(STATUS_MESSAGES.GRANTING_ACCESS)
+
+        const result = await executeTransaction(
+          'grantPrivacyAccess',
+          [debtId, address],
+          GAS_LIMITS.GRANT_ACCESS,
+          `Granting debt #${debtId} access to ${formatAddress(address)}`
+        )
+
+        if (result.success) {
+          setStatus('Privacy access granted! 🔑')
+          if (!isLive) await loadUserData()
+          return true
+        }
+        return false
+      } catch (error: any) {
+        setStatus(error.message || `Failed to grant access: ${parseContractError(error)}`, true)
+        return false
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [wallet, setStatus, loadUserData, executeTransaction, isLive]
+  )
+
+  const revokeAccess = useCallback(
+    async (debtId: number, address: string) => {
+      if (!wallet.isConnected || !wallet.contract) {
+        setStatus('Please connect your wallet first!', true)
+        return false
+      }
+      if (!isValidEthereumAddress(address)) {
+        setStatus('Please enter a valid Ethereum address (0x followed by 40 hex characters)', true)
+        return false
+      }
+
+      try {
+        setIsLoading(true)
+        setStatus(STATUS_MESSAGES.REVOKING_ACCESS)
+
+        const result = await executeTransaction(
+          'revokePrivacyAccess',
+          [debtId, address],
+          GAS_LIMITS.REVOKE_ACCESS,
+          `Revoking debt #${debtId} access from ${formatAddress(address)}`
+        )
+
+        if (result.success) {
+          setStatus('Privacy access revoked! 🚫')
+          if (!isLive) await loadUserData()
+          return true
+        }
+        return false
+      } catch (error: any) {
+        setStatus(error.message || `Failed to revoke access: ${parseContractError(error)}`, true)
+        return false
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [wallet, setStatus, loadUserData, executeTransaction, isLive]
+  )
+
+  // Owner-only allowlist change; the indexed CreditorAuthorizationChanged event updates the console
+  const setCreditorAuthorization = useCallback(
+    async (address: string, authorized: boolean) => {
+      if (!wallet.isConnected || !wallet.contract) {
+        setStatus('Please connect your wallet first!', true)
+        return false
+      }
+      if (!isValidEthereumAddress(address)) {
+        setStatus('Please enter a valid Ethereum address (0x followed by 40 hex characters)', true)
+        return false
+      }
+
+      try {
+        setIsLoading(true)
+        setStatus(STATUS_MESSAGES.UPDATING_CREDITORS)
+
+        const result = await executeTransaction(
+          'setAuthorizedCreditor',
+          [address, authorized],
+          GAS_LIMITS.SET_CREDITOR,
+          `${authorized ? 'Authorizing' : 'Removing'} creditor ${formatAddress(address)}`
+        )
+
+        if (result.success) {
+          setStatus(`Creditor ${formatAddress(address)} ${authorized ? 'authorized' : 'removed'} ✅`)
+          await admin.loadStats()
+          return true
+        }
+        return false
+      } catch (error: any) {
+        setStatus(error.message || `Failed to update creditors: ${parseContractError(error)}`, true)
+        return false
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [wallet, admin, setStatus, executeTransaction]
+  )
+
+  // Invalidates every delegated grant at once; holders that should keep access must be granted again.
+  // The sealed description keeps its key, so anyone it was shared with can still open it
+  const rotateAccessKey = useCallback(
+    async (debtId: number) => {
+      if (!wallet.isConnected || !wallet.contract) {
+        setStatus('Please connect your wallet first!', true)
+        return false
+      }
+
+      try {
+        setIsLoading(true)
+        setStatus(STATUS_MESSAGES.ROTATING_ACCESS_KEY)
+
+        const result = await executeTransaction(
+          'rotatePrivacyKey',
+          [debtId],
+          GAS_LIMITS.ROTATE_ACCESS_KEY,
+          `Rotating debt #${debtId} privacy key`
+        )
+
+        if (result.success) {
+          setStatus('Privacy key rotated - delegated contract access was revoked 🔄')
+          if (!isLive) await loadUserData()
+          return true
+        }
+        return false
+      } catch (error: any) {
+        setStatus(error.message || `Failed to rotate key: ${parseContractError(error)}`, true)
+        return false
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [wallet, setStatus, loadUserData, executeTransaction, isLive]
+  )
+
+  // Fully anonymous hides the debtor from every reader; revokeExistingAccess also rotates the privacy key
+  // so addresses that already saw the debtor lose access
+  const setPrivacyMode = useCallback(
+    async (debtId: number, anonymous: boolean, revokeExistingAccess = false) => {
+      if (!wallet.isConnected || !wallet.contract) {
+        setStatus('Please connect your wallet first!', true)
+        return false
+      }
+
+      try {
+        setIsLoading(true)
+        setStatus(STATUS_MESSAGES.CHANGING_PRIVACY)
+
+        const result = anonymous
+          ? await executeTransaction(
+              'enableAnonymousMode',
+              [debtId, revokeExistingAccess],
+              GAS_LIMITS.CHANGE_PRIVACY + (revokeExistingAccess ? GAS_LIMITS.ROTATE_ACCESS_KEY : 0),
+              `Making debt #${debtId} fully anonymous`
+            )
+          : await executeTransaction(
+              'disableAnonymousMode',
+              [debtId],
+              GAS_LIMITS.CHANGE_PRIVACY,
+              `Switching debt #${debtId} to basic privacy`
+            )
+
+        if (result.success) {
+          // Reflect the level the contract reports rather than the one requested
+          const changed = result.receipt?.logs
+            .map((log) => wallet.contract!.parseEvent('PrivacyLevelChanged', log))
+            .find((event) => event !== null)
+          if (changed) {
+            const isAnonymous = Number(changed.newPrivacyLevel) === PRIVACY_LEVELS.ANONYMOUS
+            setUserDebts((debts) => debts.map((debt) => (debt.id === debtId ? { ...debt, isAnonymous } : debt)))
+          }
+          setStatus(anonymous ? 'Debt is now fully anonymous 🔒👤' : 'Debt now uses basic privacy 🔓')
+          if (!isLive) await loadUserData()
+          return true
+        }
+        return false
+      } catch (error: any) {
+        setStatus(error.message || `Failed to change privacy: ${parseContractError(error)}`, true)
+        return false
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [wallet, setStatus, loadUserData, executeTransaction, isLive]
+  )
+
+  // The key that opens a debt's current description, for the debtor to hand to a reader;
+  // the reader stores it in their keyring, since a grant alone only opens the encrypted terms
+  const shareDebtKey = useCallback(
+    async (debtId: number): Promise<string | null> => {
+      if (!wallet.contract) {
+        setStatus('Please connect your wallet first!', true)
+        return null
+      }
+      try {
+        const { description } = await wallet.contract.getAnonymousDebtInfo(debtId)
+        return await getDebtKey(sealedKeyId(description) ?? BigInt(debtId))
+      } catch (error: any) {
+        setStatus(`Failed to derive the access key: ${parseContractError(error)}`, true)
+        return null
+      }
+    },
+    [wallet.contract, getDebtKey, setStatus]
+  )
+
+  // Asks the contract directly, independent of the indexed grant history
+  const verifyAccess = useCallback(
+    async (debtId: number, address: string): Promise<boolean | null> => {
+      if (!wallet.contract || !isValidEthereumAddress(address)) return null
+      try {
+        return await wallet.contract.verifyPrivacyAccess(debtId, address)
+      } catch (error: any) {
+        setStatus(`Failed to check access: ${parseContractError(error)}`, true)
+        return null
+      }
+    },
+    [wallet.contract, setStatus]
+  )
+
+  // Re-send a failed, cancelled or replaced write with its original arguments
+  const retryTransaction = useCallback(
+    async (id: string) => {
+      const record = transactions.transactions.find((tx) => tx.id === id)
+      if (!record || !isRetryable(record)) return false
+
+      try {
+        setIsLoading(true)
+        const result = await executeTransaction(
+          record.method as DebtManagerWriteMethod,
+          record.params as DebtManagerArgs<DebtManagerWriteMethod>,
+          record.gasLimit,
+          `Retrying: ${record.description}`
+        )
+
+        if (result.success) {
+          // Sealed params record the id their key was derived for, so they stay readable as sent
+          if (!isLive) await loadUserData()
+          return true
+        }
+        return false
+      } catch (error: any) {
+        setStatus(error.message || `Retry failed: ${parseContractError(error)}`, true)
+        return false
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [transactions.transactions, executeTransaction, setStatus, loadUserData, isLive]
+  )
+
+  // Load data when wallet connects, again once the keyring is unlocked, and whenever an event
+  // sync finishes so proposals received on the user's debts are picked up
   useEffect(() => {
-    if (wallet.isConnected) {
+    if (wallet.isConnected && !indexer.isSyncing) {
       loadUserData()
     }
-  }, [wallet.isConnected, loadUserData])
+  }, [wallet.isConnected, keyring.isUnlocked, indexer.isSyncing, loadUserData])
+
+  // Refresh when a contract event touches one of the user's debts or proposals
+  useEffect(() => {
+    if (lastLiveLog && wallet.account && isAccountLog(projection, wallet.account, lastLiveLog)) {
+      loadUserData()
+    }
+
+    // A restructuring executed by the other party replaces terms already decrypted here
+    if (
+      lastLiveLog?.name === 'AnonymousStatusUpdate' &&
+      lastLiveLog.args.entityType === 'DEBT' &&
+      Number(lastLiveLog.args.newStatus) === DebtStatus.RESTRUCTURED
+    ) {
+      decryption.forget('debt', Number(lastLiveLog.args.entityId))
+    }
+
+    // Prompt the parties whose approval a newly submitted proposal needs
+    if (lastLiveLog?.name === 'AnonymousProposalSubmitted' && wallet.account) {
+      const proposalId = Number(lastLiveLog.args.proposalId)
+      const debtor = projection.debts[Number(lastLiveLog.args.debtId)]?.debtor
+      // Proposing does not count as approving, so the debtor is prompted even for their own proposal
+      if (debtor?.toLowerCase() === wallet.account.toLowerCase()) {
+        setStatus(`Proposal #${proposalId} is waiting on your approval as debtor 👉`)
+      } else if (creditor.isCreditor) {
+        setStatus(`Proposal #${proposalId} is waiting on creditor approval 👉`)
+      }
+    }
+    // The projection is read as of the log; it must not retrigger the refresh
+  }, [lastLiveLog])
+
+  // Indexed records not loaded from the views yet, rendered as placeholders until they are
+  const pendingDebts = useMemo(() => {
+    if (!wallet.account) return []
+    const loaded = new Set(userDebts.map((debt) => debt.id))
+    return selectAccountDebts(projection, wallet.account).filter((debt) => !loaded.has(debt.id))
+  }, [projection, wallet.account, userDebts])
+
+  const pendingProposals = useMemo(() => {
+    if (!wallet.account) return []
+    const loaded = new Set(userProposals.map((proposal) => proposal.id))
+    return selectAccountProposals(projection, wallet.account).filter((proposal) => !loaded.has(proposal.id))
+  }, [projection, wallet.account, userProposals])
 
   return {
     userDebts,
     userProposals,
+    pendingDebts,
+    pendingProposals,
     isLoading,
     error,
     transactionStatus,
     estimatedGas,
+    feeTier,
+    setFeeTier,
+    feeQuotes,
+    feeWarning,
+    refreshFeeQuotes,
+    simulationError,
+    allowFailedSimulation,
+    setAllowFailedSimulation,
     createDebt,
     proposeRestructuring,
     approveProposal,
+    reviewProposal,
     executeProposal,
     markDebtResolved,
+    grantAccess,
+    revokeAccess,
+    rotateAccessKey,
+    shareDebtKey,
+    verifyAccess,
+    setPrivacyMode,
+    setCreditorAuthorization,
+    retryTransaction,
     loadUserData,
     setStatus,
     estimateGas,
+    accessKeys,
+    keyring,
+    indexer,
+    transactions,
+    decryption,
+    termVerification,
+    creditor,
+    admin,
+    encryptorKind: encryptor.kind,
   }
 }
\ No newline at end of file
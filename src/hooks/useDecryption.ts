@@ -0,0 +1,131 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { WalletConnection } from '@/types'
+import { CONTRACT_ADDRESS, STATUS_MESSAGES, DEV_CONFIG } from '@/constants'
+import { fromContractAmount, fromContractRate, fromContractTerm } from '@/contract'
+import { createEncryptor, EncryptedField, ReencryptionSession } from '@/fhe'
+import { parseContractError } from '@/utils'
+import { LoanTerms } from '@/utils/amortization'
+
+// 'replaced' reads the debt terms an executed proposal replaced, keyed by proposal id
+export type DecryptableKind = 'debt' | 'proposal' | 'replaced'
+
+export const decryptionKey = (kind: DecryptableKind, id: number, field: EncryptedField) => {
+  return `${kind}:${id}:${field}`
+}
+
+// A debt's amount, rate and full term once all three were decrypted this session
+export const decryptedDebtTerms = (values: Record<string, number>, debtId: number): LoanTerms | null => {
+  const amount = values[decryptionKey('debt', debtId, 'amount')]
+  const interestRate = values[decryptionKey('debt', debtId, 'rate')]
+  const termDays = values[decryptionKey('debt', debtId, 'term')]
+  if (amount === undefined || interestRate === undefined || termDays === undefined) return null
+  return { amount, interestRate, termDays }
+}
+
+// Display units: USD, percent and days
+const toDisplayValue = (field: EncryptedField, value: bigint): number => {
+  if (field === 'amount') return fromContractAmount(value)
+  if (field === 'rate') return fromContractRate(value)
+  return fromContractTerm(value)
+}
+
+export const useDecryption = (wallet: WalletConnection) => {
+  // Decrypted values live in memory only and are dropped on reload or account change
+  const [values, setValues] = useState<Record<string, number>>({})
+  const [decrypting, setDecrypting] = useState<Set<string>>(new Set())
+  const [error, setError] = useState<string | null>(null)
+  const sessionRef = useRef<Promise<ReencryptionSession> | null>(null)
+
+  const encryptor = useMemo(() => createEncryptor(Number(wallet.chainId ?? 0)), [wallet.chainId])
+
+  useEffect(() => {
+    sessionRef.current = null
+    setValues({})
+    setDecrypting(new Set())
+    setError(null)
+  }, [wallet.account, wallet.chainId])
+
+  const getSession = useCallback((): Promise<ReencryptionSession> => {
+    if (!wallet.signer) {
+      return Promise.reject(new Error('Please connect your wallet first!'))
+    }
+    if (!sessionRef.current) {
+      if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+        console.log('[Decryption] INFO:', STATUS_MESSAGES.SIGNING_REENCRYPTION)
+      }
+      sessionRef.current = encryptor.createReencryptionSession(wallet.signer, CONTRACT_ADDRESS).catch((error) => {
+        // A rejected signature should not block the next attempt
+        sessionRef.current = null
+        throw error
+      })
+    }
+    return sessionRef.current
+  }, [wallet.signer, encryptor])
+
+  const fetchHandle = useCallback(async (kind: DecryptableKind, id: number, field: EncryptedField) => {
+    if (!wallet.contract) throw new Error('Please connect your wallet first!')
+
+    if (kind === 'debt') {
+      const data = await wallet.contract.getEncryptedDebtData(id)
+      return { amount: data.encryptedAmount, rate: data.encryptedRate, term: data.encryptedTerm }[field]
+    }
+    if (kind === 'replaced') {
+      const data = await wallet.contract.getReplacedDebtData(id)
+      return { amount: data.encryptedAmount, rate: data.encryptedRate, term: data.encryptedTerm }[field]
+    }
+    const data = await wallet.contract.getEncryptedProposalData(id)
+    return { amount: data.encryptedNewAmount, rate: data.encryptedNewRate, term: data.encryptedNewTerm }[field]
+  }, [wallet.contract])
+
+  const decryptField = useCallback(async (kind: DecryptableKind, id: number, field: EncryptedField) => {
+    const key = decryptionKey(kind, id, field)
+    setDecrypting((current) => new Set(current).add(key))
+    setError(null)
+
+    try {
+      const [session, handle] = await Promise.all([getSession(), fetchHandle(kind, id, field)])
+      const value = toDisplayValue(field, await session.decrypt(handle, field))
+      setValues((current) => ({ ...current, [key]: value }))
+      return value
+    } catch (error: any) {
+      const message = parseContractError(error)
+      if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+        console.error('[Decryption] ERROR:', message)
+      }
+      setError(`Failed to decrypt ${field}: ${message}`)
+      return null
+    } finally {
+      setDecrypting((current) => {
+        const next = new Set(current)
+        next.delete(key)
+        return next
+      })
+    }
+  }, [getSession, fetchHandle])
+
+  // Drop an entity's values once its on-chain terms change, e.g. after a restructuring
+  const forget = useCallback((kind: DecryptableKind, id: number) => {
+    const prefix = `${kind}:${id}:`
+    setValues((current) => {
+      const next = { ...current }
+      for (const key of Object.keys(next)) {
+        if (key.startsWith(prefix)) delete next[key]
+      }
+      return next
+    })
+  }, [])
+
+  const clear = useCallback(() => {
+    sessionRef.current = null
+    setValues({})
+  }, [])
+
+  return useMemo(() => ({
+    values,
+    decrypting,
+    error,
+    decryptField,
+    forget,
+    clear,
+  }), [values, decrypting, error, decryptField, forget, clear])
+}
@@ -0,0 +1,92 @@
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import { WalletConnection } from '@/types'
+import { CONTRACT_ADDRESS, CONTRACT_DEPLOYMENT_BLOCK, DEV_CONFIG } from '@/constants'
+import { parseContractError } from '@/utils'
+import { IndexedLog, Projection, SyncProgress, createIndexer, emptyProjection } from '@/indexer'
+
+export const useIndexer = (wallet: WalletConnection) => {
+  const [projection, setProjection] = useState<Projection>(emptyProjection)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [isLive, setIsLive] = useState(false)
+  const [progress, setProgress] = useState<SyncProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Most recent log received over the live subscription
+  const [lastLiveLog, setLastLiveLog] = useState<IndexedLog | null>(null)
+
+  const indexer = useMemo(() => {
+    if (!wallet.isConnected || !wallet.provider || !wallet.chainId) return null
+    return createIndexer({
+      provider: wallet.provider,
+      address: CONTRACT_ADDRESS,
+      chainId: Number(wallet.chainId),
+      deploymentBlock: CONTRACT_DEPLOYMENT_BLOCK,
+    })
+  }, [wallet.isConnected, wallet.provider, wallet.chainId])
+
+  const sync = useCallback(async () => {
+    if (!indexer) return
+    try {
+      setIsSyncing(true)
+      setError(null)
+      setProjection(await indexer.sync(setProgress))
+    } catch (err) {
+      if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+        console.error('[AnonymousDebtManager] Indexer sync failed:', err)
+      }
+      setError(`Failed to index contract events: ${parseContractError(err)}`)
+    } finally {
+      setIsSyncing(false)
+      setProgress(null)
+    }
+  }, [indexer])
+
+  const resync = useCallback(async () => {
+    if (!indexer) return
+    await indexer.reset()
+    setProjection(emptyProjection())
+    await sync()
+  }, [indexer, sync])
+
+  // Render the checkpointed projection right away, then catch up and go live
+  useEffect(() => {
+    setProjection(emptyProjection())
+    setIsLive(false)
+    if (!indexer) return
+
+    let cancelled = false
+    let unsubscribe: (() => void) | null = null
+
+    const start = async () => {
+      const restored = await indexer.load()
+      if (cancelled) return
+      setProjection(restored)
+
+      unsubscribe = indexer.subscribe((next, log) => {
+        setProjection(next)
+        setLastLiveLog(log)
+      })
+      setIsLive(true)
+      await sync()
+    }
+
+    start().catch((err) => {
+      setError(`Failed to start event indexer: ${parseContractError(err)}`)
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe?.()
+    }
+  }, [indexer, sync])
+
+  return useMemo(() => ({
+    projection,
+    isSyncing,
+    isLive,
+    progress,
+    error,
+    lastLiveLog,
+    sync,
+    resync,
+  }), [projection, isSyncing, isLive, progress, error, lastLiveLog, sync, resync])
+}
@@ -0,0 +1,155 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { WalletConnection } from '@/types'
+import { CONTRACT_ADDRESS, DEV_CONFIG } from '@/constants'
+import { Keyring, KeyringBackup, KeyringEntityKind, KeyringEntry, hasKeyring, openKeyring } from '@/keyring'
+
+export const useKeyring = (wallet: WalletConnection) => {
+  const keyringRef = useRef<Keyring | null>(null)
+  const [isUnlocked, setIsUnlocked] = useState(false)
+  const [exists, setExists] = useState(false)
+  const [entries, setEntries] = useState<KeyringEntry[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    hasKeyring().then(setExists).catch(() => setExists(false))
+  }, [])
+
+  // Only surface entries that belong to the connected network and contract
+  const scopedEntries = useMemo(() => {
+    return entries.filter(entry =>
+      entry.chainId === wallet.chainId?.toLowerCase() &&
+      entry.contract === CONTRACT_ADDRESS.toLowerCase()
+    )
+  }, [entries, wallet.chainId])
+
+  const refresh = useCallback(async () => {
+    if (!keyringRef.current) return
+    setEntries(await keyringRef.current.listKeys())
+  }, [])
+
+  const unlock = useCallback(async (passphrase: string): Promise<boolean> => {
+    try {
+      setError(null)
+      keyringRef.current = await openKeyring(passphrase)
+      setIsUnlocked(true)
+      setExists(true)
+      await refresh()
+      return true
+    } catch (err: any) {
+      setError(err.message || 'Failed to unlock keyring')
+      return false
+    }
+  }, [refresh])
+
+  const lock = useCallback(() => {
+    keyringRef.current = null
+    setIsUnlocked(false)
+    setEntries([])
+  }, [])
+
+  // Returns null when the keyring is locked or holds no key for the entity
+  const lookupKey = useCallback(async (kind: KeyringEntityKind, entityId: number | bigint): Promise<string | null> => {
+    if (!keyringRef.current || !wallet.chainId) return null
+    try {
+      return await keyringRef.current.getKey({
+        chainId: wallet.chainId,
+        contract: CONTRACT_ADDRESS,
+        kind,
+        entityId: Number(entityId),
+      })
+    } catch (err) {
+      if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+        console.warn('[Keyring] Failed to read key:', kind, Number(entityId), err)
+      }
+      return null
+    }
+  }, [wallet.chainId])
+
+  const addKey = useCallback(async (
+    kind: KeyringEntityKind,
+    entityId: number,
+    accessKey: string,
+    details: { label?: string; sharedBy?: string } = {}
+  ): Promise<boolean> => {
+    if (!keyringRef.current || !wallet.chainId) {
+      setError('Unlock the keyring first')
+      return false
+    }
+    try {
+      setError(null)
+      await keyringRef.current.putKey({
+        chainId: wallet.chainId,
+        contract: CONTRACT_ADDRESS,
+        kind,
+        entityId,
+        accessKey,
+        ...details,
+      })
+      await refresh()
+      return true
+    } catch (err: any) {
+      setError(err.message || 'Failed to store access key')
+      return false
+    }
+  }, [wallet.chainId, refresh])
+
+  const removeKey = useCallback(async (kind: KeyringEntityKind, entityId: number) => {
+    if (!keyringRef.current || !wallet.chainId) return
+    await keyringRef.current.removeKey({ chainId: wallet.chainId, contract: CONTRACT_ADDRESS, kind, entityId })
+    await refresh()
+  }, [wallet.chainId, refresh])
+
+  // Download all entries as an encrypted JSON backup file
+  const exportBackup = useCallback(async (backupPassphrase: string): Promise<boolean> => {
+    if (!keyringRef.current) {
+      setError('Unlock the keyring first')
+      return false
+    }
+    try {
+      setError(null)
+      const backup = await keyringRef.current.exportBackup(backupPassphrase)
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `adm-keyring-${new Date().toISOString().slice(0, 10)}.json`
+      link.click()
+      URL.revokeObjectURL(url)
+      return true
+    } catch (err: any) {
+      setError(err.message || 'Failed to export keyring')
+      return false
+    }
+  }, [])
+
+  const importBackup = useCallback(async (file: File, backupPassphrase: string): Promise<number> => {
+    if (!keyringRef.current) {
+      setError('Unlock the keyring first')
+      return 0
+    }
+    try {
+      setError(null)
+      const backup = JSON.parse(await file.text()) as KeyringBackup
+      const imported = await keyringRef.current.importBackup(backup, backupPassphrase)
+      await refresh()
+      return imported
+    } catch (err: any) {
+      setError(err instanceof SyntaxError ? 'Backup file is not valid JSON' : err.message)
+      return 0
+    }
+  }, [refresh])
+
+  return useMemo(() => ({
+    exists,
+    isUnlocked,
+    entries: scopedEntries,
+    error,
+    unlock,
+    lock,
+    lookupKey,
+    addKey,
+    removeKey,
+    exportBackup,
+    importBackup,
+  }), [exists, isUnlocked, scopedEntries, error, unlock, lock, lookupKey, addKey, removeKey, exportBackup, importBackup])
+}
@@ -0,0 +1,66 @@
+import { useState, useCallback, useMemo } from 'react'
+import { RestructurePreset } from '@/types'
+import { DEV_CONFIG } from '@/constants'
+import { BUILT_IN_RESTRUCTURE_PRESETS, validateRestructurePreset } from '@/utils/presets'
+
+const STORAGE_KEY = 'adm-restructure-presets'
+
+// Entries edited by hand or saved by an older build are dropped rather than applied
+const loadCustomPresets = (): RestructurePreset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    const stored = raw ? (JSON.parse(raw) as RestructurePreset[]) : []
+    return stored
+      .filter((preset) => validateRestructurePreset(preset).length === 0)
+      .map((preset) => ({ ...preset, custom: true }))
+  } catch (error) {
+    return []
+  }
+}
+
+const saveCustomPresets = (presets: RestructurePreset[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+  } catch (error) {
+    if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+      console.warn('[Presets] Could not persist custom presets:', error)
+    }
+  }
+}
+
+export const useRestructurePresets = () => {
+  const [customPresets, setCustomPresets] = useState<RestructurePreset[]>(loadCustomPresets)
+
+  const presets = useMemo(() => [...BUILT_IN_RESTRUCTURE_PRESETS, ...customPresets], [customPresets])
+
+  // Returns the validation errors; the preset is stored only when there are none
+  const savePreset = useCallback((preset: RestructurePreset): string[] => {
+    const errors = validateRestructurePreset(preset)
+    if (presets.some((existing) => existing.name.toLowerCase() === preset.name.trim().toLowerCase())) {
+      errors.push(`A preset named "${preset.name.trim()}" already exists`)
+    }
+    if (errors.length > 0) return errors
+
+    setCustomPresets((current) => {
+      const next = [...current, { ...preset, custom: true }]
+      saveCustomPresets(next)
+      return next
+    })
+    return []
+  }, [presets])
+
+  const deletePreset = useCallback((id: string) => {
+    setCustomPresets((current) => {
+      const next = current.filter((preset) => preset.id !== id)
+      saveCustomPresets(next)
+      return next
+    })
+  }, [])
+
+  return {
+    presets,
+    customPresets,
+    savePreset,
+    deletePreset,
+  }
+}
@@ -0,0 +1,205 @@
+import { useState, useCallback, useEffect, useMemo } from 'react'
+import { ethers } from 'ethers'
+import { DebtStatus, ProposalStatus, WalletConnection } from '@/types'
+import { CONTRACT_ADDRESS, DEV_CONFIG } from '@/constants'
+import {
+  COMMITMENT_DOMAINS,
+  CommitmentKind,
+  combineCommitments,
+  computePrivacyHash,
+  toContractAmount,
+  toContractRate,
+  toContractTerm,
+} from '@/contract'
+import { EncryptedField, encryptMockField } from '@/fhe'
+import { parseContractError } from '@/utils'
+import { isFHENetwork } from '@/utils/fhe'
+import { Projection } from '@/indexer'
+
+// How the record stores its terms:
+//   commitment       privacy hashes of plaintext inputs, rebuilt locally
+//   mock-ciphertext  local mock encryptor handles, which are deterministic
+//   ciphertext       fhevm handles, which cannot be matched without decrypting
+export type TermScheme = 'commitment' | 'mock-ciphertext' | 'ciphertext'
+
+export interface StatedTerms {
+  kind: CommitmentKind
+  id: number
+  amount: number
+  interestRate: number
+  termDays: number
+  // Needed when the record hides its submitter (fully anonymous debts)
+  submitter?: string
+}
+
+export interface TermVerification {
+  kind: CommitmentKind
+  id: number
+  scheme: TermScheme
+  fields: Record<EncryptedField, boolean>
+  // verifyAnonymousDataIntegrity result; null where the contract has no such check
+  confirmedOnChain: boolean | null
+  verifiedAt: number
+}
+
+const FIELDS: EncryptedField[] = ['amount', 'rate', 'term']
+
+const compareFields = (stored: Record<EncryptedField, string>, expected: Record<EncryptedField, string>) => {
+  const fields = {} as Record<EncryptedField, boolean>
+  for (const field of FIELDS) {
+    fields[field] = stored[field].toLowerCase() === expected[field].toLowerCase()
+  }
+  return fields
+}
+
+export const isVerified = (result: TermVerification) => {
+  return result.scheme !== 'ciphertext' && FIELDS.every((field) => result.fields[field]) && result.confirmedOnChain !== false
+}
+
+export const useTermVerification = (wallet: WalletConnection, projection: Projection) => {
+  const [result, setResult] = useState<TermVerification | null>(null)
+  const [isVerifying, setIsVerifying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setResult(null)
+    setError(null)
+  }, [wallet.account, wallet.chainId])
+
+  const verify = useCallback(async (stated: StatedTerms): Promise<TermVerification | null> => {
+    if (!wallet.contract || !wallet.chainId) {
+      setError('Please connect your wallet first!')
+      return null
+    }
+
+    try {
+      setIsVerifying(true)
+      setError(null)
+      setResult(null)
+
+      const values: Record<EncryptedField, bigint> = {
+        amount: toContractAmount(stated.amount),
+        rate: toContractRate(stated.interestRate),
+        term: toContractTerm(stated.termDays),
+      }
+
+      // Stored slots plus who submitted them, in which block and under which domains
+      let stored: Record<EncryptedField, string>
+      let submitter: string
+      let timestamp: bigint
+      let domains = COMMITMENT_DOMAINS[stated.kind]
+      if (stated.kind === 'debt') {
+        const [data, info] = await Promise.all([
+          wallet.contract.getEncryptedDebtData(stated.id),
+          wallet.contract.getAnonymousDebtInfo(stated.id),
+        ])
+        stored = { amount: data.encryptedAmount, rate: data.encryptedRate, term: data.encryptedTerm }
+        submitter = info.debtor
+        timestamp = info.createdAt
+
+        // Executing a proposal copies its slots into the debt, so they commit to the proposal's inputs
+        if (Number(info.status) === DebtStatus.RESTRUCTURED) {
+          const executed = Object.values(projection.proposals).find((proposal) =>
+            proposal.debtId === stated.id && proposal.status === ProposalStatus.EXECUTED
+          )
+          if (!executed) {
+            throw new Error('The proposal that restructured this debt is not indexed yet - try again shortly')
+          }
+          const proposalInfo = await wallet.contract.getAnonymousProposalInfo(executed.id)
+          submitter = proposalInfo.proposer
+          timestamp = proposalInfo.proposedAt
+          domains = COMMITMENT_DOMAINS.proposal
+        }
+      } else {
+        const [data, info] = await Promise.all([
+          wallet.contract.getEncryptedProposalData(stated.id),
+          wallet.contract.getAnonymousProposalInfo(stated.id),
+        ])
+        stored = { amount: data.encryptedNewAmount, rate: data.encryptedNewRate, term: data.encryptedNewTerm }
+        submitter = info.proposer
+        timestamp = info.proposedAt
+      }
+
+      // Only a hidden debtor is taken from the form; proposers are always on record
+      if (submitter === ethers.ZeroAddress) {
+        if (!stated.submitter) {
+          throw new Error('This record hides its debtor - enter the address the debtor told you they used')
+        }
+        submitter = ethers.getAddress(stated.submitter)
+      }
+
+      const commitments = {} as Record<EncryptedField, string>
+      const mockHandles = {} as Record<EncryptedField, string>
+      for (const field of FIELDS) {
+        commitments[field] = computePrivacyHash(values[field], submitter, timestamp, domains[field])
+        mockHandles[field] = encryptMockField(CONTRACT_ADDRESS, field, values[field])
+      }
+
+      // A single matching slot identifies the scheme; mismatches are then reported per field
+      const commitmentFields = compareFields(stored, commitments)
+      const mockFields = compareFields(stored, mockHandles)
+      let scheme: TermScheme
+      let fields: Record<EncryptedField, boolean>
+      let expected: Record<EncryptedField, string>
+      if (FIELDS.some((field) => commitmentFields[field])) {
+        scheme = 'commitment'
+        fields = commitmentFields
+        expected = commitments
+      } else if (FIELDS.some((field) => mockFields[field])) {
+        scheme = 'mock-ciphertext'
+        fields = mockFields
+        expected = mockHandles
+      } else if (isFHENetwork(Number(wallet.chainId))) {
+        scheme = 'ciphertext'
+        fields = { amount: false, rate: false, term: false }
+        expected = commitments
+      } else {
+        scheme = 'commitment'
+        fields = commitmentFields
+        expected = commitments
+      }
+
+      // Have the contract confirm the full set against its own storage
+      let confirmedOnChain: boolean | null = null
+      if (stated.kind === 'debt' && scheme !== 'ciphertext') {
+        confirmedOnChain = await wallet.contract.verifyAnonymousDataIntegrity(
+          stated.id,
+          combineCommitments(expected.amount, expected.rate, expected.term)
+        )
+      }
+
+      const verification: TermVerification = {
+        kind: stated.kind,
+        id: stated.id,
+        scheme,
+        fields,
+        confirmedOnChain,
+        verifiedAt: Date.now(),
+      }
+
+      if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+        console.log('[TermVerification] INFO:', verification)
+      }
+      setResult(verification)
+      return verification
+    } catch (error: any) {
+      setError(parseContractError(error))
+      return null
+    } finally {
+      setIsVerifying(false)
+    }
+  }, [wallet.contract, wallet.chainId, projection])
+
+  const clear = useCallback(() => {
+    setResult(null)
+    setError(null)
+  }, [])
+
+  return useMemo(() => ({
+    result,
+    isVerifying,
+    error,
+    verify,
+    clear,
+  }), [result, isVerifying, error, verify, clear])
+}
@@ -0,0 +1,292 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { ethers } from 'ethers'
+import { TrackedTransaction, TrackedTransactionStatus, WalletConnection } from '@/types'
+import { TRANSACTION_CONFIG, DEV_CONFIG } from '@/constants'
+import { parseContractError } from '@/utils'
+import { debtManagerInterface } from '@/contract'
+
+const STORAGE_KEY = 'adm-transactions'
+const HISTORY_LIMIT = 50
+
+export interface TrackOptions {
+  method: string
+  params: ReadonlyArray<unknown>
+  description: string
+  gasLimit: number
+}
+
+const loadTransactions = (): TrackedTransaction[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? (JSON.parse(raw) as TrackedTransaction[]) : []
+  } catch (error) {
+    return []
+  }
+}
+
+const saveTransactions = (transactions: TrackedTransaction[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions.slice(0, HISTORY_LIMIT)))
+  } catch (error) {
+    if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+      console.warn('[Transactions] Could not persist transaction history:', error)
+    }
+  }
+}
+
+// Contract args may hold bigints, which JSON cannot store; ethers accepts decimal strings back
+const toStorableParams = (params: ReadonlyArray<unknown>): unknown[] => {
+  return params.map((value) => (typeof value === 'bigint' ? value.toString() : value))
+}
+
+// Records still worth following: never settled, or timed out before they settled
+const isUnsettled = (status: TrackedTransactionStatus) => status === 'pending' || status === 'timeout'
+
+// A replacement we could not inspect may have been a successful speed-up, so it is never retried
+export const isRetryable = (transaction: TrackedTransaction) => {
+  return (
+    transaction.status === 'failed' ||
+    transaction.status === 'cancelled' ||
+    (transaction.status === 'replaced' && transaction.replacedBy !== undefined)
+  )
+}
+
+// The transaction that used an account's nonce: find the first block where the
+// account's count passed it, then pick it out of that block. Needs historical
+// state, so nodes that prune it yield null.
+const findNonceTransaction = async (
+  provider: ethers.Provider,
+  from: string,
+  nonce: number,
+  fromBlock: number
+): Promise<ethers.TransactionResponse | null> => {
+  try {
+    let low = fromBlock
+    let high = await provider.getBlockNumber()
+    while (low < high) {
+      const mid = Math.floor((low + high) / 2)
+      if ((await provider.getTransactionCount(from, mid)) > nonce) high = mid
+      else low = mid + 1
+    }
+    const block = await provider.getBlock(low, true)
+    return block?.prefetchedTransactions.find((tx) =>
+      tx.from.toLowerCase() === from.toLowerCase() && tx.nonce === nonce
+    ) ?? null
+  } catch (error) {
+    if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+      console.warn('[Transactions] Could not look up the transaction for nonce', nonce, error)
+    }
+    return null
+  }
+}
+
+const encodesSameCall = (record: TrackedTransaction, replacement: ethers.TransactionResponse, contractAddress?: string) => {
+  try {
+    return (
+      replacement.to?.toLowerCase() === contractAddress?.toLowerCase() &&
+      replacement.data === debtManagerInterface.encodeFunctionData(record.method, record.params)
+    )
+  } catch (error) {
+    return false
+  }
+}
+
+export const useTransactionManager = (wallet: WalletConnection) => {
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(loadTransactions)
+  const transactionsRef = useRef(transactions)
+  const watchingRef = useRef(new Set<string>())
+
+  const update = useCallback((id: string, changes: Partial<TrackedTransaction>) => {
+    setTransactions((current) => {
+      const next = current.map((tx) => (tx.id === id ? { ...tx, ...changes } : tx))
+      transactionsRef.current = next
+      saveTransactions(next)
+      return next
+    })
+  }, [])
+
+  // Wait for a transaction, recording how it settled; rethrows so callers can react too
+  const follow = useCallback(async (
+    record: TrackedTransaction,
+    response: ethers.TransactionResponse
+  ): Promise<ethers.TransactionReceipt> => {
+    watchingRef.current.add(record.id)
+    try {
+      const receipt = await response.wait(TRANSACTION_CONFIG.confirmations, TRANSACTION_CONFIG.timeout)
+      update(record.id, { status: 'confirmed', blockNumber: receipt!.blockNumber, settledAt: Date.now() })
+      return receipt!
+    } catch (error) {
+      if (ethers.isError(error, 'TRANSACTION_REPLACED')) {
+        // A speed-up resends the same call at a higher fee, so the write itself went through
+        if (!error.cancelled && error.receipt.status === 1) {
+          update(record.id, {
+            status: 'confirmed',
+            replacedBy: error.replacement.hash,
+            blockNumber: error.receipt.blockNumber,
+            settledAt: Date.now(),
+          })
+          return error.receipt
+        }
+        update(record.id, {
+          status: error.reason === 'cancelled' ? 'cancelled' : 'replaced',
+          replacedBy: error.replacement.hash,
+          settledAt: Date.now(),
+        })
+      } else if (ethers.isError(error, 'TIMEOUT')) {
+        update(record.id, { status: 'timeout' })
+      } else {
+        update(record.id, { status: 'failed', error: parseContractError(error), settledAt: Date.now() })
+      }
+      throw error
+    } finally {
+      watchingRef.current.delete(record.id)
+    }
+  }, [update])
+
+  const track = useCallback(async (
+    tx: ethers.TransactionResponse,
+    options: TrackOptions
+  ): Promise<ethers.TransactionReceipt> => {
+    const record: TrackedTransaction = {
+      id: tx.hash,
+      method: options.method,
+      params: toStorableParams(options.params),
+      description: options.description,
+      gasLimit: options.gasLimit,
+      hash: tx.hash,
+      nonce: tx.nonce,
+      from: tx.from,
+      chainId: `0x${tx.chainId.toString(16)}`,
+      startBlock: wallet.provider ? await wallet.provider.getBlockNumber() : 0,
+      status: 'pending',
+      submittedAt: Date.now(),
+    }
+
+    setTransactions((current) => {
+      const next = [record, ...current].slice(0, HISTORY_LIMIT)
+      transactionsRef.current = next
+      saveTransactions(next)
+      return next
+    })
+
+    return follow(record, tx)
+  }, [wallet.provider, follow])
+
+  // Keep writes that never reached the network (reverted simulation, failed
+  // estimate, rejected signature) so they can be retried like any other failure
+  const recordFailure = useCallback((options: TrackOptions, error: unknown) => {
+    if (!wallet.account || !wallet.chainId) return
+    const record: TrackedTransaction = {
+      id: `unsent-${Date.now()}`,
+      method: options.method,
+      params: toStorableParams(options.params),
+      description: options.description,
+      gasLimit: options.gasLimit,
+      from: wallet.account,
+      chainId: wallet.chainId.toLowerCase(),
+      status: 'failed',
+      submittedAt: Date.now(),
+      settledAt: Date.now(),
+      error: parseContractError(error),
+    }
+
+    setTransactions((current) => {
+      const next = [record, ...current].slice(0, HISTORY_LIMIT)
+      transactionsRef.current = next
+      saveTransactions(next)
+      return next
+    })
+  }, [wallet.account, wallet.chainId])
+
+  // Pick a record back up after a reload
+  const resume = useCallback(async (record: TrackedTransaction) => {
+    const provider: ethers.Provider = wallet.provider
+    if (!record.hash || record.nonce === undefined) return
+    const startBlock = record.startBlock ?? 0
+    const response = await provider.getTransaction(record.hash)
+
+    if (response) {
+      await follow(record, response.replaceableTransaction(startBlock))
+      return
+    }
+
+    // Unknown to the node: either another transaction took its nonce or it was dropped
+    const minedNonce = await provider.getTransactionCount(record.from, 'latest')
+    if (minedNonce <= record.nonce) {
+      update(record.id, { status: 'failed', error: 'Transaction was dropped from the mempool', settledAt: Date.now() })
+      return
+    }
+
+    // Settle it the way follow() does for a replacement it saw happen
+    const replacement = await findNonceTransaction(provider, record.from, record.nonce, startBlock)
+    const receipt = replacement ? await provider.getTransactionReceipt(replacement.hash) : null
+    if (!replacement || !receipt) {
+      update(record.id, {
+        status: 'replaced',
+        error: 'Another transaction used this nonce; check the account on the explorer before sending again',
+        settledAt: Date.now(),
+      })
+      return
+    }
+
+    const sameCall = encodesSameCall(record, replacement, wallet.contract?.address)
+    if (sameCall && receipt.status === 1) {
+      update(record.id, {
+        status: 'confirmed',
+        replacedBy: replacement.hash,
+        blockNumber: receipt.blockNumber,
+        settledAt: Date.now(),
+      })
+    } else {
+      update(record.id, {
+        status: sameCall ? 'replaced' : 'cancelled',
+        replacedBy: replacement.hash,
+        settledAt: Date.now(),
+      })
+    }
+  }, [wallet.provider, wallet.contract, follow, update])
+
+  useEffect(() => {
+    if (!wallet.provider || !wallet.chainId) return
+
+    const unsettled = transactionsRef.current.filter((tx) =>
+      isUnsettled(tx.status) &&
+      tx.chainId === wallet.chainId?.toLowerCase() &&
+      !watchingRef.current.has(tx.id)
+    )
+
+    for (const record of unsettled) {
+      if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+        console.log('[Transactions] Resuming:', record.method, record.hash)
+      }
+      resume(record).catch((error) => {
+        if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
+          console.warn('[Transactions] Resumed transaction did not confirm:', record.hash, error)
+        }
+      })
+    }
+  }, [wallet.provider, wallet.chainId, resume])
+
+  const clearHistory = useCallback(() => {
+    setTransactions((current) => {
+      const next = current.filter((tx) => isUnsettled(tx.status))
+      transactionsRef.current = next
+      saveTransactions(next)
+      return next
+    })
+  }, [])
+
+  // Only the connected account's transactions are surfaced
+  const accountTransactions = useMemo(() => {
+    if (!wallet.account) return []
+    return transactions.filter((tx) => tx.from.toLowerCase() === wallet.account!.toLowerCase())
+  }, [transactions, wallet.account])
+
+  return useMemo(() => ({
+    transactions: accountTransactions,
+    pendingCount: accountTransactions.filter((tx) => isUnsettled(tx.status)).length,
+    track,
+    recordFailure,
+    clearHistory,
+  }), [accountTransactions, track, recordFailure, clearHistory])
+}
@@ -3,7 +3,6 @@ import { ethers } from 'ethers'
 import { WalletConnection } from '@/types'
 import {
   CONTRACT_ADDRESS,
-  CONTRACT_ABI,
   SEPOLIA_CHAIN_ID,
   SEPOLIA_CONFIG,
   STATUS_MESSAGES,
@@ -12,18 +11,7 @@ import {
   EXPLORER_URLS,
 } from '@/constants'
 import { parseContractError } from '@/utils'
-
-declare global {
-  interface Window {
-    ethereum?: {
-      isMetaMask?: boolean
-      request: (args: { method: string; params?: any[] }) => Promise<any>
-      on: (event: string, callback: (...args: any[]) => void) => void
-      removeListener: (event: string, callback: (...args: any[]) => void) => void
-      removeAllListeners: (event: string) => void
-    }
-  }
-}
+import { createDebtManagerClient } from '@/contract'
 
 interface WalletState {
   balance: string
@@ -249,11 +237,11 @@ export const useWallet = () => {
 
       // Initialize contract
       setStatus('Connecting to smart contract...')
-      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer)
+      const contract = createDebtManagerClient(CONTRACT_ADDRESS, signer)
 
       // Test contract connection by calling a view function
       try {
-        const totalDebts = await contract.getTotalDebts?.() || 0
+        const totalDebts = await contract.getTotalDebts()
         if (DEV_CONFIG.ENABLE_CONSOLE_LOGS) {
           console.log('[Wallet] Contract connection successful, total debts:', totalDebts.toString())
         }
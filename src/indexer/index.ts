@@ -0,0 +1,162 @@
+// Client-side event indexer for AnonymousDebtManager
+//
+// Scans contract logs from the deployment block in chunked getLogs ranges and
+// folds them into a Projection. The projection and the last scanned block are
+// checkpointed after every chunk, so an interrupted sync resumes where it
+// stopped. A live subscription keeps the projection current between syncs.
+
+import { ethers } from 'ethers'
+import { INDEXER_CONFIG } from '@/constants'
+import { createKeyValueStore } from '@/utils/storage'
+import { debtManagerInterface, decodeEventArgs, DebtManagerEventName } from '@/contract'
+import { Projection, IndexedLog, applyLog, emptyProjection } from './projection'
+
+export * from './projection'
+export * from './timeline'
+
+export interface IndexerCheckpoint {
+  lastBlock: number
+  projection: Projection
+}
+
+export interface SyncProgress {
+  fromBlock: number
+  toBlock: number
+  currentBlock: number
+}
+
+export interface Indexer {
+  getProjection: () => Projection
+  load: () => Promise<Projection>
+  sync: (onProgress?: (progress: SyncProgress) => void) => Promise<Projection>
+  subscribe: (listener: (projection: Projection, log: IndexedLog) => void) => () => void
+  reset: () => Promise<void>
+}
+
+export interface IndexerOptions {
+  provider: ethers.Provider
+  address: string
+  chainId: number
+  // Sync starts here; scanning from genesis or bisecting for it would need an archive node
+  deploymentBlock: number
+}
+
+const checkpoints = createKeyValueStore<IndexerCheckpoint>('adm-indexer', 'checkpoints')
+
+const toPlainArgs = (args: Record<string, unknown>): Record<string, unknown> => {
+  const plain: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(args)) {
+    plain[key] = typeof value === 'bigint' ? Number(value) : value
+  }
+  return plain
+}
+
+// Decode a raw log; logs from other contracts or unknown events yield null
+export const decodeLog = (log: ethers.Log): IndexedLog | null => {
+  const parsed = debtManagerInterface.parseLog(log)
+  if (!parsed) return null
+
+  return {
+    name: parsed.name,
+    args: toPlainArgs(decodeEventArgs(parsed.name as DebtManagerEventName, parsed.args) as unknown as Record<string, unknown>),
+    blockNumber: log.blockNumber,
+    index: log.index,
+    transactionHash: log.transactionHash,
+  }
+}
+
+const isRangeTooLarge = (error: unknown): boolean => {
+  const message = String((error as { message?: string })?.message ?? error).toLowerCase()
+  return /range|too many|limit|exceed|timeout|10000/.test(message)
+}
+
+export const createIndexer = ({ provider, address, chainId, deploymentBlock }: IndexerOptions): Indexer => {
+  const checkpointKey = `${chainId}:${address.toLowerCase()}`
+  let projection = emptyProjection()
+  let lastBlock = -1
+
+  const persist = () => checkpoints.put(checkpointKey, { lastBlock, projection })
+
+  const applyLogs = (logs: ethers.Log[]) => {
+    for (const log of logs) {
+      const decoded = decodeLog(log)
+      if (decoded) projection = applyLog(projection, decoded)
+    }
+  }
+
+  const load = async () => {
+    const checkpoint = await checkpoints.get(checkpointKey)
+    if (checkpoint) {
+      // Checkpoints written before a projection field existed lack it
+      projection = { ...emptyProjection(), ...checkpoint.projection }
+      lastBlock = checkpoint.lastBlock
+    } else {
+      if (!deploymentBlock) {
+        throw new Error('Contract deployment block is not configured - set VITE_CONTRACT_DEPLOYMENT_BLOCK')
+      }
+      projection = emptyProjection()
+      lastBlock = deploymentBlock - 1
+    }
+    return projection
+  }
+
+  const sync = async (onProgress?: (progress: SyncProgress) => void) => {
+    const startBlock = lastBlock + 1
+    const latestBlock = await provider.getBlockNumber()
+    let chunkSize = INDEXER_CONFIG.chunkSize
+
+    while (lastBlock < latestBlock) {
+      const fromBlock = lastBlock + 1
+      const toBlock = Math.min(fromBlock + chunkSize - 1, latestBlock)
+
+      let logs: ethers.Log[]
+      try {
+        logs = await provider.getLogs({ address, fromBlock, toBlock })
+      } catch (error) {
+        // Providers cap range or result size; retry the same range in smaller chunks
+        if (chunkSize > INDEXER_CONFIG.minChunkSize && isRangeTooLarge(error)) {
+          chunkSize = Math.max(INDEXER_CONFIG.minChunkSize, Math.floor(chunkSize / 2))
+          continue
+        }
+        throw error
+      }
+
+      applyLogs(logs)
+      lastBlock = toBlock
+      await persist()
+      onProgress?.({ fromBlock: startBlock, toBlock: latestBlock, currentBlock: toBlock })
+    }
+
+    return projection
+  }
+
+  const subscribe = (listener: (projection: Projection, log: IndexedLog) => void) => {
+    const filter = { address }
+    const handler = (log: ethers.Log) => {
+      const decoded = decodeLog(log)
+      if (!decoded) return
+      projection = applyLog(projection, decoded)
+      // The checkpoint block only advances through sync; replaying is harmless
+      persist().catch(() => undefined)
+      listener(projection, decoded)
+    }
+
+    provider.on(filter, handler)
+    return () => {
+      provider.off(filter, handler)
+    }
+  }
+
+  const reset = async () => {
+    await checkpoints.remove(checkpointKey)
+    await load()
+  }
+
+  return {
+    getProjection: () => projection,
+    load,
+    sync,
+    subscribe,
+    reset,
+  }
+}
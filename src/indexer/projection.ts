@@ -0,0 +1,477 @@
+// Local projection of AnonymousDebtManager state rebuilt from contract events
+//
+// Logs only carry ids, parties, hashes and statuses - amounts, rates and terms
+// stay behind the access-controlled views. Applying a log is idempotent, so a
+// range can be replayed after an interrupted sync without double counting.
+
+import { ethers } from 'ethers'
+import { PRIVACY_LEVELS } from '@/constants'
+import { DebtStatus, ProposalStatus } from '@/types'
+
+export type IndexedEntityType = 'DEBT' | 'PROPOSAL'
+
+export interface IndexedDebt {
+  id: number
+  debtor: string
+  encryptedDataHash: string
+  isFullyAnonymous: boolean
+  privacyLevel: number
+  createdAt: number
+  status: DebtStatus
+  blockNumber: number
+  transactionHash: string
+}
+
+export interface IndexedProposal {
+  id: number
+  debtId: number
+  proposer: string
+  encryptedProposalHash: string
+  proposedAt: number
+  status: ProposalStatus
+  blockNumber: number
+  transactionHash: string
+}
+
+export interface StatusTransition {
+  key: string
+  entityType: IndexedEntityType
+  entityId: number
+  status: number
+  timestamp: number
+  blockNumber: number
+  transactionHash: string
+}
+
+export interface AccessGrant {
+  key: string
+  entityType: IndexedEntityType
+  entityId: number
+  user: string
+  accessType: string
+  timestamp: number
+  blockNumber: number
+  transactionHash: string
+}
+
+export interface AccessRevocation {
+  key: string
+  debtId: number
+  user: string
+  timestamp: number
+  blockNumber: number
+  transactionHash: string
+}
+
+export interface PrivacyChange {
+  key: string
+  debtId: number
+  privacyLevel: number
+  timestamp: number
+  blockNumber: number
+  transactionHash: string
+}
+
+// Note attached to an approval or rejection, sealed under the proposal access key when possible
+export interface ReviewNote {
+  key: string
+  proposalId: number
+  reviewer: string
+  approved: boolean
+  encryptedNote: string
+  timestamp: number
+  blockNumber: number
+  transactionHash: string
+}
+
+// Owner change to the creditor allowlist
+export interface CreditorChange {
+  key: string
+  creditor: string
+  authorized: boolean
+  changedBy: string
+  timestamp: number
+  blockNumber: number
+  transactionHash: string
+}
+
+// Rotating a debt's privacy key invalidates every delegated grant made before it
+export interface KeyRotation {
+  key: string
+  debtId: number
+  timestamp: number
+  blockNumber: number
+  transactionHash: string
+}
+
+export interface Projection {
+  debts: Record<number, IndexedDebt>
+  proposals: Record<number, IndexedProposal>
+  transitions: StatusTransition[]
+  grants: AccessGrant[]
+  revocations: AccessRevocation[]
+  rotations: KeyRotation[]
+  privacyChanges: PrivacyChange[]
+  reviewNotes: ReviewNote[]
+  creditorChanges: CreditorChange[]
+}
+
+// A decoded contract log with plain number/string arguments
+export interface IndexedLog {
+  name: string
+  args: Record<string, unknown>
+  blockNumber: number
+  index: number
+  transactionHash: string
+}
+
+// PrivacyAccessGranted reuses entityId for debts and proposals; the access type tells them apart
+const GRANT_ENTITY_TYPES: Record<string, IndexedEntityType> = {
+  DEBT_CREATOR: 'DEBT',
+  DEBT_ACCESS: 'DEBT',
+  PROPOSAL_CREATOR: 'PROPOSAL',
+  DEBT_OWNER: 'PROPOSAL',
+}
+
+export const emptyProjection = (): Projection => ({
+  debts: {},
+  proposals: {},
+  transitions: [],
+  grants: [],
+  revocations: [],
+  rotations: [],
+  privacyChanges: [],
+  reviewNotes: [],
+  creditorChanges: [],
+})
+
+const logKey = (log: IndexedLog) => `${log.transactionHash}:${log.index}`
+
+const byChainOrder = (a: { key: string; blockNumber: number }, b: { key: string; blockNumber: number }) => {
+  return a.blockNumber - b.blockNumber || Number(a.key.split(':')[1]) - Number(b.key.split(':')[1])
+}
+
+// Latest status recorded for an entity, if any transition was seen before it was created
+const latestStatus = (transitions: StatusTransition[], entityType: IndexedEntityType, entityId: number) => {
+  const matching = transitions.filter((t) => t.entityType === entityType && t.entityId === entityId)
+  return matching.length > 0 ? matching[matching.length - 1].status : 0
+}
+
+// Latest privacy level recorded for a debt, falling back to the level it was created with
+const latestPrivacyLevel = (changes: PrivacyChange[], debtId: number, isFullyAnonymous: boolean) => {
+  const matching = changes.filter((c) => c.debtId === debtId)
+  if (matching.length > 0) return matching[matching.length - 1].privacyLevel
+  return isFullyAnonymous ? PRIVACY_LEVELS.ANONYMOUS : PRIVACY_LEVELS.BASIC
+}
+
+export const applyLog = (projection: Projection, log: IndexedLog): Projection => {
+  const args = log.args
+
+  switch (log.name) {
+    case 'AnonymousDebtCreated': {
+      const id = Number(args.debtId)
+      if (projection.debts[id]) return projection
+      return {
+        ...projection,
+        debts: {
+          ...projection.debts,
+          [id]: {
+            id,
+            debtor: ethers.getAddress(String(args.debtor)),
+            encryptedDataHash: String(args.encryptedDataHash),
+            isFullyAnonymous: Boolean(args.isFullyAnonymous),
+            privacyLevel: latestPrivacyLevel(projection.privacyChanges, id, Boolean(args.isFullyAnonymous)),
+            createdAt: Number(args.timestamp),
+            status: latestStatus(projection.transitions, 'DEBT', id),
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+          },
+        },
+      }
+    }
+
+    case 'AnonymousProposalSubmitted': {
+      const id = Number(args.proposalId)
+      if (projection.proposals[id]) return projection
+      return {
+        ...projection,
+        proposals: {
+          ...projection.proposals,
+          [id]: {
+            id,
+            debtId: Number(args.debtId),
+            proposer: ethers.getAddress(String(args.proposer)),
+            encryptedProposalHash: String(args.encryptedProposalHash),
+            proposedAt: Number(args.timestamp),
+            status: latestStatus(projection.transitions, 'PROPOSAL', id),
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+          },
+        },
+      }
+    }
+
+    case 'AnonymousStatusUpdate': {
+      const key = logKey(log)
+      if (projection.transitions.some((t) => t.key === key)) return projection
+
+      const transition: StatusTransition = {
+        key,
+        entityType: args.entityType === 'PROPOSAL' ? 'PROPOSAL' : 'DEBT',
+        entityId: Number(args.entityId),
+        status: Number(args.newStatus),
+        timestamp: Number(args.timestamp),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      }
+      const transitions = [...projection.transitions, transition].sort(byChainOrder)
+      const status = latestStatus(transitions, transition.entityType, transition.entityId)
+
+      if (transition.entityType === 'DEBT') {
+        const debt = projection.debts[transition.entityId]
+        return {
+          ...projection,
+          transitions,
+          debts: debt ? { ...projection.debts, [debt.id]: { ...debt, status } } : projection.debts,
+        }
+      }
+      const proposal = projection.proposals[transition.entityId]
+      return {
+        ...projection,
+        transitions,
+        proposals: proposal ? { ...projection.proposals, [proposal.id]: { ...proposal, status } } : projection.proposals,
+      }
+    }
+
+    case 'PrivacyAccessGranted': {
+      const key = logKey(log)
+      if (projection.grants.some((g) => g.key === key)) return projection
+
+      const accessType = String(args.accessType)
+      const grant: AccessGrant = {
+        key,
+        entityType: GRANT_ENTITY_TYPES[accessType] ?? 'DEBT',
+        entityId: Number(args.entityId),
+        user: ethers.getAddress(String(args.user)),
+        accessType,
+        timestamp: Number(args.timestamp),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      }
+      return { ...projection, grants: [...projection.grants, grant].sort(byChainOrder) }
+    }
+
+    case 'PrivacyLevelChanged': {
+      const key = logKey(log)
+      if (args.entityType !== 'DEBT' || projection.privacyChanges.some((c) => c.key === key)) return projection
+
+      const change: PrivacyChange = {
+        key,
+        debtId: Number(args.entityId),
+        privacyLevel: Number(args.newPrivacyLevel),
+        timestamp: Number(args.timestamp),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      }
+      const privacyChanges = [...projection.privacyChanges, change].sort(byChainOrder)
+      const debt = projection.debts[change.debtId]
+      if (!debt) return { ...projection, privacyChanges }
+
+      const privacyLevel = latestPrivacyLevel(privacyChanges, debt.id, debt.isFullyAnonymous)
+      return {
+        ...projection,
+        privacyChanges,
+        debts: {
+          ...projection.debts,
+          [debt.id]: { ...debt, privacyLevel, isFullyAnonymous: privacyLevel === PRIVACY_LEVELS.ANONYMOUS },
+        },
+      }
+    }
+
+    case 'ProposalReviewNote': {
+      const key = logKey(log)
+      if (projection.reviewNotes.some((n) => n.key === key)) return projection
+
+      const note: ReviewNote = {
+        key,
+        proposalId: Number(args.proposalId),
+        reviewer: ethers.getAddress(String(args.reviewer)),
+        approved: Boolean(args.approved),
+        encryptedNote: String(args.encryptedNote),
+        timestamp: Number(args.timestamp),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      }
+      return { ...projection, reviewNotes: [...projection.reviewNotes, note].sort(byChainOrder) }
+    }
+
+    case 'CreditorAuthorizationChanged': {
+      const key = logKey(log)
+      if (projection.creditorChanges.some((c) => c.key === key)) return projection
+
+      const change: CreditorChange = {
+        key,
+        creditor: ethers.getAddress(String(args.creditor)),
+        authorized: Boolean(args.authorized),
+        changedBy: ethers.getAddress(String(args.changedBy)),
+        timestamp: Number(args.timestamp),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      }
+      return { ...projection, creditorChanges: [...projection.creditorChanges, change].sort(byChainOrder) }
+    }
+
+    case 'AnonymousAccessRevoked': {
+      const key = logKey(log)
+      if (projection.revocations.some((r) => r.key === key)) return projection
+
+      const revocation: AccessRevocation = {
+        key,
+        debtId: Number(args.debtId),
+        user: ethers.getAddress(String(args.user)),
+        timestamp: Number(args.timestamp),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      }
+      return { ...projection, revocations: [...projection.revocations, revocation].sort(byChainOrder) }
+    }
+
+    case 'PrivacyKeyRotated': {
+      const key = logKey(log)
+      if (projection.rotations.some((r) => r.key === key)) return projection
+
+      const rotation: KeyRotation = {
+        key,
+        debtId: Number(args.debtId),
+        timestamp: Number(args.timestamp),
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      }
+      return { ...projection, rotations: [...projection.rotations, rotation].sort(byChainOrder) }
+    }
+
+    default:
+      return projection
+  }
+}
+
+const isAfter = (a: { key: string; blockNumber: number }, b: { key: string; blockNumber: number }) => {
+  return byChainOrder(a, b) > 0
+}
+
+// Debt grants end with a later revocation for the same user or a later key rotation
+const isGrantActive = (projection: Projection, grant: AccessGrant) => {
+  if (grant.entityType !== 'DEBT') return true
+  return (
+    !projection.revocations.some((r) => r.debtId === grant.entityId && r.user === grant.user && isAfter(r, grant)) &&
+    !projection.rotations.some((r) => r.debtId === grant.entityId && isAfter(r, grant))
+  )
+}
+
+const hasGrant = (projection: Projection, account: string, entityType: IndexedEntityType, entityId: number) => {
+  return projection.grants.some(
+    (g) => g.entityType === entityType && g.entityId === entityId && g.user === account && isGrantActive(projection, g)
+  )
+}
+
+// Addresses currently holding delegated read access to a debt, latest grant per address
+export const selectAccessHolders = (projection: Projection, debtId: number): AccessGrant[] => {
+  const holders = new Map<string, AccessGrant>()
+  for (const grant of projection.grants) {
+    if (grant.entityType !== 'DEBT' || grant.entityId !== debtId || grant.accessType !== 'DEBT_ACCESS') continue
+    if (isGrantActive(projection, grant)) holders.set(grant.user, grant)
+  }
+  return [...holders.values()]
+}
+
+// Debts the account created or was granted access to
+export const selectAccountDebts = (projection: Projection, account: string): IndexedDebt[] => {
+  const address = ethers.getAddress(account)
+  return Object.values(projection.debts).filter(
+    (debt) => debt.debtor === address || hasGrant(projection, address, 'DEBT', debt.id)
+  )
+}
+
+// Proposals the account submitted or received as debt owner
+export const selectAccountProposals = (projection: Projection, account: string): IndexedProposal[] => {
+  const address = ethers.getAddress(account)
+  return Object.values(projection.proposals).filter(
+    (proposal) => proposal.proposer === address || hasGrant(projection, address, 'PROPOSAL', proposal.id)
+  )
+}
+
+// Proposals still awaiting a decision, for authorized creditors who may act on any of them
+export const selectPendingProposals = (projection: Projection): IndexedProposal[] => {
+  return Object.values(projection.proposals).filter((proposal) => proposal.status === ProposalStatus.PENDING)
+}
+
+// Current creditor allowlist, latest change per address
+export const selectAuthorizedCreditors = (projection: Projection): CreditorChange[] => {
+  const latest = new Map<string, CreditorChange>()
+  for (const change of projection.creditorChanges) {
+    latest.set(change.creditor, change)
+  }
+  return [...latest.values()].filter((change) => change.authorized)
+}
+
+// Executed proposals for a debt in execution order; each replaced the terms before it
+export const selectTermRevisions = (projection: Projection, debtId: number): StatusTransition[] => {
+  return projection.transitions.filter(
+    (t) =>
+      t.entityType === 'PROPOSAL' &&
+      t.status === ProposalStatus.EXECUTED &&
+      projection.proposals[t.entityId]?.debtId === debtId
+  )
+}
+
+export const selectTransitions = (
+  projection: Projection,
+  entityType: IndexedEntityType,
+  entityId: number
+): StatusTransition[] => {
+  return projection.transitions.filter((t) => t.entityType === entityType && t.entityId === entityId)
+}
+
+// Whether a log changes anything the account can see, evaluated after it was applied
+export const isAccountLog = (projection: Projection, account: string, log: IndexedLog): boolean => {
+  const address = ethers.getAddress(account)
+  const args = log.args
+
+  switch (log.name) {
+    case 'AnonymousDebtCreated':
+      return ethers.getAddress(String(args.debtor)) === address
+    case 'AnonymousProposalSubmitted':
+      return (
+        ethers.getAddress(String(args.proposer)) === address ||
+        projection.debts[Number(args.debtId)]?.debtor === address
+      )
+    case 'ProposalReviewNote':
+      return selectAccountProposals(projection, address).some((proposal) => proposal.id === Number(args.proposalId))
+    case 'AnonymousStatusUpdate': {
+      const entities = args.entityType === 'PROPOSAL'
+        ? selectAccountProposals(projection, address)
+        : selectAccountDebts(projection, address)
+      return entities.some((entity) => entity.id === Number(args.entityId))
+    }
+    case 'CreditorAuthorizationChanged':
+      return ethers.getAddress(String(args.creditor)) === address
+    case 'PrivacyAccessGranted':
+    case 'AnonymousAccessRevoked':
+      return ethers.getAddress(String(args.user)) === address
+    case 'PrivacyLevelChanged':
+      return (
+        args.entityType === 'DEBT' &&
+        selectAccountDebts(projection, address).some((debt) => debt.id === Number(args.entityId))
+      )
+    case 'PrivacyKeyRotated': {
+      // The debtor, and anyone who held a grant the rotation may have ended
+      const debtId = Number(args.debtId)
+      return (
+        projection.debts[debtId]?.debtor === address ||
+        projection.grants.some((g) => g.entityType === 'DEBT' && g.entityId === debtId && g.user === address)
+      )
+    }
+    default:
+      return false
+  }
+}
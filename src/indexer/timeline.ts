@@ -0,0 +1,165 @@
+// Per-debt activity timeline derived from the indexed projection
+
+import { DebtStatus, ProposalStatus } from '@/types'
+import { Projection } from './projection'
+
+export type TimelineEventKind =
+  | 'DEBT_CREATED'
+  | 'PROPOSAL_SUBMITTED'
+  | 'PROPOSAL_APPROVAL_RECORDED'
+  | 'PROPOSAL_APPROVED'
+  | 'PROPOSAL_REJECTED'
+  | 'PROPOSAL_EXECUTED'
+  | 'DEBT_RESOLVED'
+  | 'DEBT_DEFAULTED'
+  | 'DEBT_RESTRUCTURED'
+  | 'ACCESS_GRANTED'
+  | 'ACCESS_REVOKED'
+  | 'KEY_ROTATED'
+  | 'PRIVACY_CHANGED'
+  | 'REVIEW_NOTE'
+
+export interface TimelineEntry {
+  key: string
+  kind: TimelineEventKind
+  timestamp: number
+  blockNumber: number
+  transactionHash: string
+  proposalId?: number
+  user?: string
+  accessType?: string
+  privacyLevel?: number
+}
+
+// A proposal staying PENDING after processing means one party approved and the other has not yet
+const PROPOSAL_STATUS_EVENTS: Record<ProposalStatus, TimelineEventKind> = {
+  [ProposalStatus.PENDING]: 'PROPOSAL_APPROVAL_RECORDED',
+  [ProposalStatus.APPROVED]: 'PROPOSAL_APPROVED',
+  [ProposalStatus.REJECTED]: 'PROPOSAL_REJECTED',
+  [ProposalStatus.EXECUTED]: 'PROPOSAL_EXECUTED',
+}
+
+const DEBT_STATUS_EVENTS: Record<DebtStatus, TimelineEventKind | null> = {
+  [DebtStatus.ACTIVE]: null,
+  [DebtStatus.RESOLVED]: 'DEBT_RESOLVED',
+  [DebtStatus.DEFAULTED]: 'DEBT_DEFAULTED',
+  [DebtStatus.RESTRUCTURED]: 'DEBT_RESTRUCTURED',
+}
+
+export const buildDebtTimeline = (projection: Projection, debtId: number): TimelineEntry[] => {
+  const debt = projection.debts[debtId]
+  if (!debt) return []
+
+  const proposalIds = new Set(
+    Object.values(projection.proposals)
+      .filter((proposal) => proposal.debtId === debtId)
+      .map((proposal) => proposal.id)
+  )
+
+  const entries: TimelineEntry[] = [
+    {
+      key: `debt-${debt.id}`,
+      kind: 'DEBT_CREATED',
+      timestamp: debt.createdAt,
+      blockNumber: debt.blockNumber,
+      transactionHash: debt.transactionHash,
+    },
+  ]
+
+  for (const proposalId of proposalIds) {
+    const proposal = projection.proposals[proposalId]
+    entries.push({
+      key: `proposal-${proposal.id}`,
+      kind: 'PROPOSAL_SUBMITTED',
+      timestamp: proposal.proposedAt,
+      blockNumber: proposal.blockNumber,
+      transactionHash: proposal.transactionHash,
+      proposalId: proposal.id,
+    })
+  }
+
+  for (const transition of projection.transitions) {
+    const kind = transition.entityType === 'DEBT'
+      ? transition.entityId === debtId ? DEBT_STATUS_EVENTS[transition.status as DebtStatus] : null
+      : proposalIds.has(transition.entityId) ? PROPOSAL_STATUS_EVENTS[transition.status as ProposalStatus] : null
+    if (!kind) continue
+
+    entries.push({
+      key: transition.key,
+      kind,
+      timestamp: transition.timestamp,
+      blockNumber: transition.blockNumber,
+      transactionHash: transition.transactionHash,
+      proposalId: transition.entityType === 'PROPOSAL' ? transition.entityId : undefined,
+    })
+  }
+
+  for (const grant of projection.grants) {
+    const concernsDebt = grant.entityType === 'DEBT'
+      ? grant.entityId === debtId
+      : proposalIds.has(grant.entityId)
+    if (!concernsDebt) continue
+
+    entries.push({
+      key: grant.key,
+      kind: 'ACCESS_GRANTED',
+      timestamp: grant.timestamp,
+      blockNumber: grant.blockNumber,
+      transactionHash: grant.transactionHash,
+      proposalId: grant.entityType === 'PROPOSAL' ? grant.entityId : undefined,
+      user: grant.user,
+      accessType: grant.accessType,
+    })
+  }
+
+  for (const revocation of projection.revocations) {
+    if (revocation.debtId !== debtId) continue
+    entries.push({
+      key: revocation.key,
+      kind: 'ACCESS_REVOKED',
+      timestamp: revocation.timestamp,
+      blockNumber: revocation.blockNumber,
+      transactionHash: revocation.transactionHash,
+      user: revocation.user,
+    })
+  }
+
+  for (const rotation of projection.rotations) {
+    if (rotation.debtId !== debtId) continue
+    entries.push({
+      key: rotation.key,
+      kind: 'KEY_ROTATED',
+      timestamp: rotation.timestamp,
+      blockNumber: rotation.blockNumber,
+      transactionHash: rotation.transactionHash,
+    })
+  }
+
+  for (const change of projection.privacyChanges) {
+    if (change.debtId !== debtId) continue
+    entries.push({
+      key: change.key,
+      kind: 'PRIVACY_CHANGED',
+      timestamp: change.timestamp,
+      blockNumber: change.blockNumber,
+      transactionHash: change.transactionHash,
+      privacyLevel: change.privacyLevel,
+    })
+  }
+
+  for (const note of projection.reviewNotes) {
+    if (!proposalIds.has(note.proposalId)) continue
+    entries.push({
+      key: note.key,
+      kind: 'REVIEW_NOTE',
+      timestamp: note.timestamp,
+      blockNumber: note.blockNumber,
+      transactionHash: note.transactionHash,
+      proposalId: note.proposalId,
+      user: note.reviewer,
+    })
+  }
+
+  // The sort is stable, so entries within one block keep the creation, proposal, status, access order
+  return entries.sort((a, b) => a.blockNumber - b.blockNumber || a.timestamp - b.timestamp)
+}
@@ -0,0 +1,73 @@
+// WebCrypto helpers for the access-key keyring
+// Passphrases are stretched with PBKDF2-SHA256 and entries sealed with AES-GCM.
+
+export const KDF_ITERATIONS = 310000
+const SALT_BYTES = 16
+const IV_BYTES = 12
+
+export interface SealedPayload {
+  iv: string
+  ciphertext: string
+}
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary)
+}
+
+export const fromBase64 = (value: string): Uint8Array => {
+  const binary = atob(value)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export const randomSalt = (): string => {
+  return toBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)))
+}
+
+export const deriveEncryptionKey = async (
+  passphrase: string,
+  salt: string,
+  iterations = KDF_ITERATIONS
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  )
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: fromBase64(salt), iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export const sealJson = async (key: CryptoKey, value: unknown): Promise<SealedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(value))
+  )
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) }
+}
+
+export const openJson = async <T>(key: CryptoKey, payload: SealedPayload): Promise<T> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+    key,
+    fromBase64(payload.ciphertext)
+  )
+  return JSON.parse(new TextDecoder().decode(plaintext)) as T
+}
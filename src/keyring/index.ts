@@ -0,0 +1,146 @@
+// Encrypted local keyring for anonymous access keys
+//
+// Holds keys that cannot be re-derived from the connected wallet - typically
+// keys a counterparty shared after granting access. Every entry is sealed
+// with a key stretched from the user's passphrase before it touches storage.
+
+import { createKeyValueStore, KeyValueStore } from '@/utils/storage'
+import { isAccessKey } from '@/utils/accessKeys'
+import {
+  KDF_ITERATIONS,
+  SealedPayload,
+  deriveEncryptionKey,
+  randomSalt,
+  sealJson,
+  openJson,
+} from './crypto'
+
+export type KeyringEntityKind = 'debt' | 'proposal'
+
+export interface KeyringRef {
+  chainId: string
+  contract: string
+  kind: KeyringEntityKind
+  entityId: number
+}
+
+export interface KeyringEntry extends KeyringRef {
+  accessKey: string
+  label?: string
+  sharedBy?: string
+  addedAt: number
+}
+
+export interface KeyringBackup {
+  format: 'adm-keyring-backup'
+  version: 1
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }
+  payload: SealedPayload
+}
+
+interface KeyringMeta {
+  salt: string
+  iterations: number
+  verifier: SealedPayload
+}
+
+export interface Keyring {
+  getKey: (ref: KeyringRef) => Promise<string | null>
+  putKey: (entry: Omit<KeyringEntry, 'addedAt'>) => Promise<KeyringEntry>
+  removeKey: (ref: KeyringRef) => Promise<void>
+  listKeys: () => Promise<KeyringEntry[]>
+  exportBackup: (backupPassphrase: string) => Promise<KeyringBackup>
+  importBackup: (backup: KeyringBackup, backupPassphrase: string) => Promise<number>
+}
+
+const META_KEY = '__meta__'
+const VERIFIER = 'adm-keyring-v1'
+
+const metaStore = createKeyValueStore<KeyringMeta>('adm-keyring', 'meta')
+const entryStore: KeyValueStore<SealedPayload> = createKeyValueStore<SealedPayload>('adm-keyring', 'entries')
+
+export const keyringEntryId = (ref: KeyringRef): string => {
+  return [ref.chainId.toLowerCase(), ref.contract.toLowerCase(), ref.kind, ref.entityId].join(':')
+}
+
+export const hasKeyring = async (): Promise<boolean> => {
+  return (await metaStore.get(META_KEY)) !== undefined
+}
+
+// Unlock the keyring, creating it on first use with the given passphrase
+export const openKeyring = async (passphrase: string): Promise<Keyring> => {
+  if (!passphrase) throw new Error('A keyring passphrase is required')
+
+  let meta = await metaStore.get(META_KEY)
+  let key: CryptoKey
+
+  if (!meta) {
+    const salt = randomSalt()
+    key = await deriveEncryptionKey(passphrase, salt)
+    meta = { salt, iterations: KDF_ITERATIONS, verifier: await sealJson(key, VERIFIER) }
+    await metaStore.put(META_KEY, meta)
+  } else {
+    key = await deriveEncryptionKey(passphrase, meta.salt, meta.iterations)
+    try {
+      await openJson<string>(key, meta.verifier)
+    } catch (error) {
+      throw new Error('Incorrect keyring passphrase')
+    }
+  }
+
+  const listKeys = async (): Promise<KeyringEntry[]> => {
+    const sealed = await entryStore.entries()
+    return Promise.all(sealed.map(([, payload]) => openJson<KeyringEntry>(key, payload)))
+  }
+
+  const putKey = async (entry: Omit<KeyringEntry, 'addedAt'>): Promise<KeyringEntry> => {
+    if (!isAccessKey(entry.accessKey)) {
+      throw new Error('Access key must be a 0x-prefixed 32-byte hex string')
+    }
+    const stored: KeyringEntry = {
+      ...entry,
+      chainId: entry.chainId.toLowerCase(),
+      contract: entry.contract.toLowerCase(),
+      addedAt: Math.floor(Date.now() / 1000),
+    }
+    await entryStore.put(keyringEntryId(stored), await sealJson(key, stored))
+    return stored
+  }
+
+  return {
+    getKey: async ref => {
+      const payload = await entryStore.get(keyringEntryId(ref))
+      if (!payload) return null
+      return (await openJson<KeyringEntry>(key, payload)).accessKey
+    },
+    putKey,
+    removeKey: ref => entryStore.remove(keyringEntryId(ref)),
+    listKeys,
+    exportBackup: async backupPassphrase => {
+      const salt = randomSalt()
+      const backupKey = await deriveEncryptionKey(backupPassphrase, salt)
+      return {
+        format: 'adm-keyring-backup',
+        version: 1,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: KDF_ITERATIONS, salt },
+        payload: await sealJson(backupKey, await listKeys()),
+      }
+    },
+    importBackup: async (backup, backupPassphrase) => {
+      if (backup?.format !== 'adm-keyring-backup' || backup.version !== 1) {
+        throw new Error('Unsupported keyring backup file')
+      }
+      const backupKey = await deriveEncryptionKey(backupPassphrase, backup.kdf.salt, backup.kdf.iterations)
+      let entries: KeyringEntry[]
+      try {
+        entries = await openJson<KeyringEntry[]>(backupKey, backup.payload)
+      } catch (error) {
+        throw new Error('Incorrect backup passphrase or corrupted backup file')
+      }
+      for (const entry of entries) {
+        await putKey(entry)
+      }
+      return entries.length
+    },
+  }
+}
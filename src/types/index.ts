@@ -1,28 +1,34 @@
 // Core Types for Anonymous Debt Restructuring Platform
 
+import type { DebtManagerClient } from '@/contract'
+
 export interface WalletConnection {
   account: string | null
   provider: any
   signer: any
-  contract: any
+  contract: DebtManagerClient | null
   isConnected: boolean
   chainId: string | null
 }
 
+// Matches the contract's DebtStatus ordinals
 export enum DebtStatus {
   ACTIVE = 0,
-  RESTRUCTURING = 1,
-  RESOLVED = 2,
-  DEFAULTED = 3,
+  RESOLVED = 1,
+  DEFAULTED = 2,
+  RESTRUCTURED = 3,
 }
 
+// Matches the contract's ProposalStatus ordinals
 export enum ProposalStatus {
   PENDING = 0,
-  ACCEPTED = 1,
+  APPROVED = 1,
   REJECTED = 2,
   EXECUTED = 3,
 }
 
+// Amounts are USD, rates percent, terms days and timestamps unix seconds;
+// see src/contract/units.ts for the on-chain representation
 export interface DebtRecord {
   id: number
   debtor: string
@@ -33,6 +39,7 @@ export interface DebtRecord {
   createdAt: number
   status: DebtStatus
   isAnonymous: boolean
+  description?: string
 }
 
 export interface RestructuringProposal {
@@ -45,20 +52,34 @@ export interface RestructuringProposal {
   proposedAt: number
   status: ProposalStatus
   reason: string
+  // Both parties must approve before a PENDING proposal becomes APPROVED
+  debtorApproved: boolean
+  creditorApproved: boolean
 }
 
+export type ProposalParty = 'debtor' | 'creditor'
+
 export interface DebtPreset {
+  id: string
+  name: string
+  category: string
   amount: number
   rate: number
   days: number
   reason: string
 }
 
+// Multipliers applied to a debt's current amount, rate and remaining term
 export interface RestructurePreset {
+  id: string
+  name: string
+  category: string
   factor: number
   rateFactor: number
   termFactor: number
   reason: string
+  // Saved by the user in this browser rather than shipped with the app
+  custom?: boolean
 }
 
 export interface AppState {
@@ -74,6 +95,7 @@ export interface CreateDebtForm {
   interestRate: string
   termDays: string
   isAnonymous: boolean
+  description?: string
 }
 
 export interface ProposeRestructuringForm {
@@ -89,6 +111,36 @@ export interface ContractError extends Error {
   code?: string
 }
 
+export type TrackedTransactionStatus =
+  | 'pending'
+  | 'confirmed'
+  | 'failed'
+  | 'replaced'
+  | 'cancelled'
+  | 'timeout'
+
+// A write, persisted so it can be followed across page reloads.
+// Params are stored JSON-safe: bigints become decimal strings.
+// hash, nonce and startBlock are absent when the write failed before submission.
+export interface TrackedTransaction {
+  id: string
+  method: string
+  params: unknown[]
+  description: string
+  gasLimit: number
+  hash?: string
+  nonce?: number
+  from: string
+  chainId: string
+  startBlock?: number
+  status: TrackedTransactionStatus
+  submittedAt: number
+  settledAt?: number
+  blockNumber?: number
+  replacedBy?: string
+  error?: string
+}
+
 export interface TransactionResponse {
   hash: string
   wait: () => Promise<TransactionReceipt>
@@ -0,0 +1,123 @@
+// Deterministic anonymous access key derivation
+//
+// Every key is derived from a single EIP-712 signature over a fixed message,
+// so the same wallet reproduces the same keys on any device. Wallets sign with
+// deterministic ECDSA nonces (RFC 6979), which makes the signature - and the
+// root key hashed from it - stable across sessions.
+
+import { ethers } from 'ethers'
+import { toBase64, fromBase64 } from '@/keyring/crypto'
+
+export type AccessKeyScope = 'account' | 'debt' | 'proposal'
+
+export const ACCESS_KEY_VERSION = 1
+
+export const ACCESS_KEY_PURPOSE =
+  'Unlock anonymous access keys for AnonymousDebtManager. This signature never leaves your device.'
+
+export const ACCESS_KEY_TYPES = {
+  AccessKeyRequest: [
+    { name: 'account', type: 'address' },
+    { name: 'purpose', type: 'string' },
+    { name: 'version', type: 'uint256' },
+  ],
+}
+
+export const buildAccessKeyDomain = (chainId: string | number, verifyingContract: string): ethers.TypedDataDomain => {
+  return {
+    name: 'AnonymousDebtManager',
+    version: String(ACCESS_KEY_VERSION),
+    chainId: BigInt(chainId),
+    verifyingContract,
+  }
+}
+
+export const buildAccessKeyMessage = (account: string) => {
+  return {
+    account: ethers.getAddress(account),
+    purpose: ACCESS_KEY_PURPOSE,
+    version: ACCESS_KEY_VERSION,
+  }
+}
+
+// Collapse the wallet signature into the 32-byte root all other keys hang off
+export const deriveRootKey = (signature: string): string => {
+  return ethers.keccak256(ethers.concat([ethers.toUtf8Bytes('ADM_ACCESS_ROOT'), signature]))
+}
+
+// Derive the bytes32 access key for one entity; the account scope ignores entityId
+export const deriveAccessKey = (
+  rootKey: string,
+  scope: AccessKeyScope,
+  entityId: number | bigint = 0
+): string => {
+  return ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ['bytes32', 'string', 'uint256'],
+      [rootKey, scope, scope === 'account' ? 0 : BigInt(entityId)]
+    )
+  )
+}
+
+export const isAccessKey = (value: string): boolean => {
+  return /^0x[a-fA-F0-9]{64}$/.test(value)
+}
+
+// Encrypted strings stored on-chain (descriptions, reasons) carry one of these prefixes.
+// adm2 also records the entity id whose key sealed the text: records are sealed
+// before their id is assigned, and another transaction may take the predicted id.
+export const SEALED_TEXT_PREFIX = 'adm1:'
+export const SEALED_TEXT_PREFIX_V2 = 'adm2:'
+
+const importAccessKey = (accessKey: string, usage: KeyUsage): Promise<CryptoKey> => {
+  return crypto.subtle.importKey('raw', ethers.getBytes(accessKey), 'AES-GCM', false, [usage])
+}
+
+// Encrypt free text under an entity's access key so only key holders can read it.
+// Pass the id the key was derived for so any device can derive it again.
+export const sealWithAccessKey = async (
+  accessKey: string,
+  plaintext: string,
+  keyId?: number | bigint
+): Promise<string> => {
+  if (!plaintext) return ''
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await importAccessKey(accessKey, 'encrypt'),
+    new TextEncoder().encode(plaintext)
+  )
+  const body = `${toBase64(iv)}.${toBase64(new Uint8Array(ciphertext))}`
+  return keyId === undefined ? `${SEALED_TEXT_PREFIX}${body}` : `${SEALED_TEXT_PREFIX_V2}${keyId}:${body}`
+}
+
+export const isSealedText = (value: string): boolean => {
+  return value.startsWith(SEALED_TEXT_PREFIX) || value.startsWith(SEALED_TEXT_PREFIX_V2)
+}
+
+// Id whose access key sealed the text, when the text records one
+export const sealedKeyId = (value: string): bigint | null => {
+  if (!value.startsWith(SEALED_TEXT_PREFIX_V2)) return null
+  const keyId = value.slice(SEALED_TEXT_PREFIX_V2.length).split(':')[0]
+  return /^\d+$/.test(keyId) ? BigInt(keyId) : null
+}
+
+// Returns null when the text is sealed under a different key
+export const openWithAccessKey = async (accessKey: string, value: string): Promise<string | null> => {
+  if (!isSealedText(value)) return value // legacy plaintext
+  const body = value.startsWith(SEALED_TEXT_PREFIX_V2)
+    ? value.slice(value.indexOf(':', SEALED_TEXT_PREFIX_V2.length) + 1)
+    : value.slice(SEALED_TEXT_PREFIX.length)
+  const [iv, ciphertext] = body.split('.')
+  if (!iv || !ciphertext) return null
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(iv) },
+      await importAccessKey(accessKey, 'decrypt'),
+      fromBase64(ciphertext)
+    )
+    return new TextDecoder().decode(plaintext)
+  } catch (error) {
+    return null
+  }
+}
@@ -0,0 +1,175 @@
+// Amortization schedules for fixed-rate, level-payment debts
+//
+// Balances are carried in integer cents and each period's interest is rounded
+// to the cent before it is applied, so the rows add up exactly: the final
+// payment absorbs whatever rounding left on the balance.
+
+export type PaymentFrequency = 'monthly' | 'biweekly' | 'weekly'
+
+export interface FrequencyInfo {
+  label: string
+  periodsPerYear: number
+  periodDays: number
+}
+
+export const PAYMENT_FREQUENCIES: Record<PaymentFrequency, FrequencyInfo> = {
+  monthly: { label: 'Monthly', periodsPerYear: 12, periodDays: 365 / 12 },
+  biweekly: { label: 'Bi-weekly', periodsPerYear: 26, periodDays: 14 },
+  weekly: { label: 'Weekly', periodsPerYear: 52, periodDays: 7 },
+}
+
+// Amounts are USD rounded to cents
+export interface AmortizationRow {
+  period: number
+  // Days after the debt started that the payment falls due
+  dueDay: number
+  payment: number
+  interest: number
+  principal: number
+  balance: number
+}
+
+export interface AmortizationSchedule {
+  frequency: PaymentFrequency
+  // Level payment for every period but the last
+  periodicPayment: number
+  rows: AmortizationRow[]
+  totalPaid: number
+  totalInterest: number
+}
+
+const toCents = (amount: number) => Math.round(amount * 100)
+const fromCents = (cents: number) => cents / 100
+
+// Whole payments that fit the term, at least one
+export const countPayments = (termDays: number, frequency: PaymentFrequency): number => {
+  return Math.max(1, Math.round(termDays / PAYMENT_FREQUENCIES[frequency].periodDays))
+}
+
+// Terms buildAmortizationSchedule accepts; it throws on anything else
+export const canAmortize = (principal: number, annualRate: number, termDays: number): boolean => {
+  return principal > 0 && annualRate >= 0 && termDays > 0
+}
+
+export const buildAmortizationSchedule = (
+  principal: number,
+  annualRate: number,
+  termDays: number,
+  frequency: PaymentFrequency = 'monthly'
+): AmortizationSchedule => {
+  if (!canAmortize(principal, annualRate, termDays)) {
+    throw new RangeError('Amortization needs a positive principal and term and a non-negative rate')
+  }
+
+  const { periodsPerYear, periodDays } = PAYMENT_FREQUENCIES[frequency]
+  const payments = countPayments(termDays, frequency)
+  const periodRate = annualRate / 100 / periodsPerYear
+  const principalCents = toCents(principal)
+
+  const levelPaymentCents = periodRate === 0
+    ? Math.ceil(principalCents / payments)
+    : Math.round((principalCents * periodRate) / (1 - Math.pow(1 + periodRate, -payments)))
+
+  const rows: AmortizationRow[] = []
+  let balanceCents = principalCents
+  let totalPaidCents = 0
+  let totalInterestCents = 0
+
+  for (let period = 1; period <= payments && balanceCents > 0; period++) {
+    const interestCents = Math.round(balanceCents * periodRate)
+    // The last period, or one the rounded-up level payment already covers, settles the balance
+    const principalCents = period === payments || levelPaymentCents - interestCents >= balanceCents
+      ? balanceCents
+      : levelPaymentCents - interestCents
+    const paymentCents = principalCents + interestCents
+
+    balanceCents -= principalCents
+    totalPaidCents += paymentCents
+    totalInterestCents += interestCents
+
+    rows.push({
+      period,
+      dueDay: Math.round(period * periodDays),
+      payment: fromCents(paymentCents),
+      interest: fromCents(interestCents),
+      principal: fromCents(principalCents),
+      balance: fromCents(balanceCents),
+    })
+  }
+
+  return {
+    frequency,
+    periodicPayment: fromCents(levelPaymentCents),
+    rows,
+    totalPaid: fromCents(totalPaidCents),
+    totalInterest: fromCents(totalInterestCents),
+  }
+}
+
+// One row per period; dates are ISO days when the debt's start is known
+export const scheduleToCsv = (schedule: AmortizationSchedule, startTimestamp?: number): string => {
+  const header = ['Period', startTimestamp !== undefined ? 'Due Date' : 'Due Day', 'Payment', 'Interest', 'Principal', 'Balance']
+  const lines = schedule.rows.map((row) => [
+    row.period,
+    startTimestamp !== undefined
+      ? new Date((startTimestamp + row.dueDay * 86400) * 1000).toISOString().slice(0, 10)
+      : row.dueDay,
+    row.payment.toFixed(2),
+    row.interest.toFixed(2),
+    row.principal.toFixed(2),
+    row.balance.toFixed(2),
+  ].join(','))
+  return [header.join(','), ...lines].join('\n')
+}
+
+// Present value of the payment stream, discounting each due date at the annual rate
+export const presentValue = (schedule: AmortizationSchedule, annualDiscountRate: number): number => {
+  const { periodsPerYear } = PAYMENT_FREQUENCIES[schedule.frequency]
+  const periodRate = annualDiscountRate / 100 / periodsPerYear
+  return schedule.rows.reduce((total, row) => total + row.payment / Math.pow(1 + periodRate, row.period), 0)
+}
+
+export interface LoanTerms {
+  amount: number
+  interestRate: number
+  termDays: number
+}
+
+export interface ScheduleSummary {
+  payment: number
+  totalInterest: number
+  totalCost: number
+  presentValue: number
+}
+
+export interface RestructuringImpact {
+  current: ScheduleSummary
+  proposed: ScheduleSummary
+  // A smaller payment stretched over enough periods to cost more overall
+  lowerPaymentHigherCost: boolean
+}
+
+const summarize = (terms: LoanTerms, frequency: PaymentFrequency, discountRate: number): ScheduleSummary => {
+  const schedule = buildAmortizationSchedule(terms.amount, terms.interestRate, terms.termDays, frequency)
+  return {
+    payment: schedule.periodicPayment,
+    totalInterest: schedule.totalInterest,
+    totalCost: schedule.totalPaid,
+    presentValue: presentValue(schedule, discountRate),
+  }
+}
+
+export const analyzeRestructuring = (
+  current: LoanTerms,
+  proposed: LoanTerms,
+  discountRate: number,
+  frequency: PaymentFrequency = 'monthly'
+): RestructuringImpact => {
+  const before = summarize(current, frequency, discountRate)
+  const after = summarize(proposed, frequency, discountRate)
+  return {
+    current: before,
+    proposed: after,
+    lowerPaymentHigherCost: after.payment < before.payment && after.totalCost > before.totalCost,
+  }
+}
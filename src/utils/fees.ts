@@ -0,0 +1,126 @@
+// EIP-1559 fee strategy with slow / normal / fast tiers
+//
+// Priority fees come from eth_feeHistory reward percentiles and the max fee
+// leaves headroom over the next block's base fee. Chains that report no base
+// fee get scaled legacy gasPrice quotes instead.
+
+import { ethers } from 'ethers'
+import { FEE_CONFIG, TRANSACTION_CONFIG } from '@/constants'
+
+export type FeeTier = 'slow' | 'normal' | 'fast'
+
+export const FEE_TIERS: FeeTier[] = ['slow', 'normal', 'fast']
+
+export interface FeeQuote {
+  tier: FeeTier
+  type: 'eip1559' | 'legacy'
+  maxFeePerGas?: bigint
+  maxPriorityFeePerGas?: bigint
+  gasPrice?: bigint
+  // Next block base fee, 0 on legacy chains
+  baseFeePerGas: bigint
+  // What a transaction is expected to pay per gas, below the max fee cap
+  expectedPricePerGas: bigint
+  isHighBaseFee: boolean
+}
+
+export type FeeQuotes = Record<FeeTier, FeeQuote>
+
+interface FeeHistory {
+  baseFeePerGas?: string[]
+  reward?: string[][]
+}
+
+const HIGH_BASE_FEE = ethers.parseUnits(String(FEE_CONFIG.highBaseFeeGwei), 'gwei')
+const MIN_PRIORITY_FEE = ethers.parseUnits(String(FEE_CONFIG.minPriorityFeeGwei), 'gwei')
+
+const percentOf = (value: bigint, percent: number) => (value * BigInt(percent)) / 100n
+
+const median = (values: bigint[]): bigint => {
+  if (values.length === 0) return 0n
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+const legacyQuotes = async (provider: ethers.JsonRpcApiProvider): Promise<FeeQuotes> => {
+  const { gasPrice } = await provider.getFeeData()
+  if (gasPrice === null) {
+    throw new Error('Network did not report a gas price')
+  }
+
+  const quote = (tier: FeeTier): FeeQuote => {
+    const price = percentOf(gasPrice, FEE_CONFIG.legacyMultiplierPercent[tier])
+    return {
+      tier,
+      type: 'legacy',
+      gasPrice: price,
+      baseFeePerGas: 0n,
+      expectedPricePerGas: price,
+      isHighBaseFee: gasPrice > HIGH_BASE_FEE,
+    }
+  }
+  return { slow: quote('slow'), normal: quote('normal'), fast: quote('fast') }
+}
+
+export const getFeeQuotes = async (provider: ethers.JsonRpcApiProvider): Promise<FeeQuotes> => {
+  const percentiles = FEE_TIERS.map((tier) => FEE_CONFIG.rewardPercentiles[tier])
+
+  let history: FeeHistory
+  try {
+    history = await provider.send('eth_feeHistory', [
+      ethers.toQuantity(FEE_CONFIG.historyBlocks),
+      'latest',
+      percentiles,
+    ])
+  } catch (error) {
+    return legacyQuotes(provider)
+  }
+
+  // eth_feeHistory returns one more base fee than blocks: the last is the next block's
+  const baseFees = history.baseFeePerGas ?? []
+  const nextBaseFee = baseFees.length > 0 ? BigInt(baseFees[baseFees.length - 1]) : 0n
+  if (nextBaseFee === 0n) {
+    return legacyQuotes(provider)
+  }
+
+  const quote = (tier: FeeTier, index: number): FeeQuote => {
+    const rewards = (history.reward ?? []).map((block) => BigInt(block[index] ?? 0))
+    const tip = median(rewards.filter((reward) => reward > 0n))
+    const maxPriorityFeePerGas = tip > MIN_PRIORITY_FEE ? tip : MIN_PRIORITY_FEE
+    const maxFeePerGas = percentOf(nextBaseFee, FEE_CONFIG.baseFeeMultiplierPercent[tier]) + maxPriorityFeePerGas
+    return {
+      tier,
+      type: 'eip1559',
+      maxFeePerGas,
+      maxPriorityFeePerGas,
+      baseFeePerGas: nextBaseFee,
+      expectedPricePerGas: nextBaseFee + maxPriorityFeePerGas,
+      isHighBaseFee: nextBaseFee > HIGH_BASE_FEE,
+    }
+  }
+  return { slow: quote('slow', 0), normal: quote('normal', 1), fast: quote('fast', 2) }
+}
+
+// Transaction overrides for a quote; TRANSACTION_CONFIG fee pins take precedence
+export const toFeeOverrides = (quote: FeeQuote): ethers.Overrides => {
+  if (quote.type === 'legacy') {
+    return { gasPrice: quote.gasPrice }
+  }
+
+  const pinned = (gwei: number | null) => (gwei === null ? null : ethers.parseUnits(String(gwei), 'gwei'))
+  const priorityFee = pinned(TRANSACTION_CONFIG.maxPriorityFeePerGas) ?? quote.maxPriorityFeePerGas!
+  // A pinned tip moves the quoted cap with it; a pinned cap bounds the tip, which may not exceed it
+  const maxFeePerGas = pinned(TRANSACTION_CONFIG.maxFeePerGas) ?? quote.maxFeePerGas! - quote.maxPriorityFeePerGas! + priorityFee
+  return {
+    maxFeePerGas,
+    maxPriorityFeePerGas: priorityFee < maxFeePerGas ? priorityFee : maxFeePerGas,
+  }
+}
+
+export const withGasBuffer = (gas: bigint): bigint => {
+  return percentOf(gas, 100 + FEE_CONFIG.gasLimitBufferPercent)
+}
+
+export const formatGwei = (wei: bigint): string => {
+  return `${Number(ethers.formatUnits(wei, 'gwei')).toFixed(2)} Gwei`
+}
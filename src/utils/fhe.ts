@@ -1,4 +1,6 @@
 // Simplified FHE utilities for frontend-only deployment
+import { FHE_CONFIG } from '@/constants'
+
 // Convert amount to wei equivalent for smart contract
 export const convertToWeiEquivalent = (amount: number): number => {
   // Convert dollars to cents to avoid floating point issues
@@ -23,7 +25,7 @@ export const convertFromBasisPoints = (basisPoints: number): number => {
 
 // Utility to check if we're on FHE-compatible network
 export const isFHENetwork = (chainId: number): boolean => {
-  return chainId === 8009 // FHEVM testnet
+  return chainId === FHE_CONFIG.chainId
 }
 
 // Format encrypted data for display
@@ -32,17 +34,4 @@ export const formatEncryptedData = (data: string): string => {
     return "No data"
   }
   return `${data.slice(0, 10)}...${data.slice(-8)}`
-}
-
-// Validation helpers
-export const validateAmount = (amount: number): boolean => {
-  return amount > 0 && amount <= 10000000 // $0 to $10M
-}
-
-export const validateRate = (rate: number): boolean => {
-  return rate >= 0 && rate <= 100 // 0% to 100%
-}
-
-export const validateTerm = (days: number): boolean => {
-  return days >= 1 && days <= 36500 // 1 day to 100 years
 }
\ No newline at end of file
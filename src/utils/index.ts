@@ -1,7 +1,10 @@
 // Utility Functions for Anonymous Debt Restructuring Platform
 
-import { DebtStatus, ProposalStatus } from '@/types'
+import { DebtStatus, ProposalParty, ProposalStatus, RestructuringProposal } from '@/types'
 import { FORMAT_OPTIONS } from '@/constants'
+import { decodeRevert } from '@/contract/errors'
+import { getDebtStatusInfo, getProposalStatusInfo } from '@/contract/status'
+import { buildAmortizationSchedule, canAmortize } from './amortization'
 
 export const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat('en-US', FORMAT_OPTIONS.CURRENCY).format(amount)
@@ -17,50 +20,34 @@ export const formatAddress = (address: string): string => {
 }
 
 export const getDebtStatusText = (status: DebtStatus): string => {
-  const statusMap = {
-    [DebtStatus.ACTIVE]: '🟢 Active',
-    [DebtStatus.RESTRUCTURING]: '🟡 Restructuring',
-    [DebtStatus.RESOLVED]: '✅ Resolved',
-    [DebtStatus.DEFAULTED]: '🔴 Defaulted',
-  }
-  return statusMap[status] || 'Unknown'
+  const info = getDebtStatusInfo(status)
+  return `${info.icon} ${info.label}`
 }
 
 export const getProposalStatusText = (status: ProposalStatus): string => {
-  const statusMap = {
-    [ProposalStatus.PENDING]: '⏳ Pending',
-    [ProposalStatus.ACCEPTED]: '✅ Accepted',
-    [ProposalStatus.REJECTED]: '❌ Rejected',
-    [ProposalStatus.EXECUTED]: '🚀 Executed',
-  }
-  return statusMap[status] || 'Unknown'
+  const info = getProposalStatusInfo(status)
+  return `${info.icon} ${info.label}`
 }
 
-export const validateAmount = (amount: string): string | null => {
-  const num = parseFloat(amount)
-  if (isNaN(num)) return 'Amount must be a valid number'
-  if (num <= 0) return 'Amount must be greater than 0'
-  if (num > 10000000) return 'Amount is too large'
-  return null
-}
+type ApprovalState = Pick<RestructuringProposal, 'status' | 'debtorApproved' | 'creditorApproved'>
 
-export const validateInterestRate = (rate: string): string | null => {
-  const num = parseFloat(rate)
-  if (isNaN(num)) return 'Interest rate must be a valid number'
-  if (num < 0) return 'Interest rate cannot be negative'
-  if (num > 100) return 'Interest rate cannot exceed 100%'
-  return null
+// Parties whose approval a proposal is still waiting on; empty once it leaves PENDING
+export const getOutstandingApprovals = (proposal: ApprovalState): ProposalParty[] => {
+  if (proposal.status !== ProposalStatus.PENDING) return []
+  const outstanding: ProposalParty[] = []
+  if (!proposal.debtorApproved) outstanding.push('debtor')
+  if (!proposal.creditorApproved) outstanding.push('creditor')
+  return outstanding
 }
 
-export const validateTerm = (term: string): string | null => {
-  const num = parseInt(term)
-  if (isNaN(num)) return 'Term must be a valid number'
-  if (num <= 0) return 'Term must be greater than 0 days'
-  if (num > 36500) return 'Term cannot exceed 100 years'
-  return null
+export const getApprovalProgressText = (proposal: ApprovalState): string => {
+  return `Debtor ${proposal.debtorApproved ? '✓' : 'pending'} / Creditor ${proposal.creditorApproved ? '✓' : 'pending'}`
 }
 
 export const parseContractError = (error: any): string => {
+  // Known contract reverts carry a user-facing message and how to fix the call
+  const revert = decodeRevert(error)
+  if (revert) return revert.hint ? `${revert.message} ${revert.hint}` : revert.message
   if (error?.reason) return error.reason
   if (error?.message) {
     // Parse common error patterns
@@ -105,20 +92,15 @@ export const isValidEthereumAddress = (address: string): boolean => {
   return /^0x[a-fA-F0-9]{40}$/.test(address)
 }
 
+// Level monthly payment over whole months; see ./amortization for the full schedule.
+// NaN for terms that cannot be amortized, so previews of half-filled forms never throw.
 export const calculateMonthlyPayment = (
   principal: number,
   annualRate: number,
   termInDays: number
 ): number => {
-  if (annualRate === 0) return principal / (termInDays / 30.44) // Average days per month
-  
-  const monthlyRate = annualRate / 100 / 12
-  const numPayments = termInDays / 30.44
-  
-  return (
-    (principal * monthlyRate * Math.pow(1 + monthlyRate, numPayments)) /
-    (Math.pow(1 + monthlyRate, numPayments) - 1)
-  )
+  if (!canAmortize(principal, annualRate, termInDays)) return NaN
+  return buildAmortizationSchedule(principal, annualRate, termInDays, 'monthly').periodicPayment
 }
 
 export const calculateTotalInterest = (
@@ -126,9 +108,8 @@ export const calculateTotalInterest = (
   annualRate: number,
   termInDays: number
 ): number => {
-  const monthlyPayment = calculateMonthlyPayment(principal, annualRate, termInDays)
-  const totalPayments = termInDays / 30.44
-  return monthlyPayment * totalPayments - principal
+  if (!canAmortize(principal, annualRate, termInDays)) return NaN
+  return buildAmortizationSchedule(principal, annualRate, termInDays, 'monthly').totalInterest
 }
 
 export const formatPercentage = (rate: number): string => {
@@ -141,21 +122,9 @@ export const formatDays = (days: number): string => {
   return `${Math.round(days / 365)} years`
 }
 
-export const getStatusColor = (status: DebtStatus | ProposalStatus): string => {
-  switch (status) {
-    case DebtStatus.ACTIVE:
-    case ProposalStatus.ACCEPTED:
-    case ProposalStatus.EXECUTED:
-      return 'var(--primary-green)'
-    case DebtStatus.RESTRUCTURING:
-    case ProposalStatus.PENDING:
-      return 'var(--warning-orange)'
-    case DebtStatus.RESOLVED:
-      return 'var(--primary-blue)'
-    case DebtStatus.DEFAULTED:
-    case ProposalStatus.REJECTED:
-      return 'var(--danger-red)'
-    default:
-      return 'var(--text-secondary)'
-  }
+// Debt and proposal ordinals overlap, so the caller says which enum the status belongs to
+export const getStatusColor = (kind: 'debt' | 'proposal', status: DebtStatus | ProposalStatus): string => {
+  return kind === 'debt'
+    ? getDebtStatusInfo(status as DebtStatus).color
+    : getProposalStatusInfo(status as ProposalStatus).color
 }
\ No newline at end of file
@@ -0,0 +1,139 @@
+// Debt and restructuring presets
+//
+// A debt preset is a complete set of terms for a new debt, from DEBT_PRESETS.
+// A restructuring preset scales a debt's current amount, rate and remaining
+// term by fixed factors. Built-in restructuring presets come from
+// RESTRUCTURE_PRESETS; custom ones are derived from terms the user already
+// entered and carry the same shape, so both go through one validation and
+// application path.
+
+import { DEBT_PRESETS, RESTRUCTURE_PRESETS } from '@/constants'
+import { CreateDebtForm, DebtPreset, RestructurePreset } from '@/types'
+import { LoanTerms } from './amortization'
+import { validateTerms } from './validation'
+
+// Form values a preset fills in, as the proposal forms hold them
+export interface PresetProposal {
+  newAmount: string
+  newRate: string
+  newTerm: string
+  reason: string
+}
+
+export interface PresetApplication {
+  proposal: PresetProposal
+  // Rule violations of the resulting terms; empty when they can be submitted
+  errors: string[]
+}
+
+const MAX_NAME_LENGTH = 40
+const MAX_FACTOR = 10
+const FACTOR_DECIMALS = 4
+
+export const BUILT_IN_RESTRUCTURE_PRESETS: RestructurePreset[] = Object.entries(RESTRUCTURE_PRESETS).map(
+  ([id, preset]) => ({ id, ...preset })
+)
+
+const roundTo = (value: number, decimals: number) => {
+  const scale = Math.pow(10, decimals)
+  return Math.round(value * scale) / scale
+}
+
+// Checks the preset itself, independent of any debt
+export const validateRestructurePreset = (preset: RestructurePreset): string[] => {
+  const errors: string[] = []
+  const name = preset.name.trim()
+
+  if (!name) errors.push('Preset name is required')
+  else if (name.length > MAX_NAME_LENGTH) errors.push(`Preset name must be at most ${MAX_NAME_LENGTH} characters`)
+  if (!preset.reason.trim()) errors.push('Preset reason is required')
+
+  if (!(preset.factor > 0 && preset.factor <= MAX_FACTOR)) {
+    errors.push(`Amount factor must be above 0 and at most ${MAX_FACTOR}`)
+  }
+  if (!(preset.rateFactor >= 0 && preset.rateFactor <= MAX_FACTOR)) {
+    errors.push(`Rate factor must be between 0 and ${MAX_FACTOR}`)
+  }
+  if (!(preset.termFactor > 0 && preset.termFactor <= MAX_FACTOR)) {
+    errors.push(`Term factor must be above 0 and at most ${MAX_FACTOR}`)
+  }
+
+  return errors
+}
+
+// Amounts round to cents, rates to basis points and terms to whole days
+export const applyRestructurePreset = (preset: RestructurePreset, current: LoanTerms): PresetApplication => {
+  const terms: LoanTerms = {
+    amount: roundTo(current.amount * preset.factor, 2),
+    interestRate: roundTo(current.interestRate * preset.rateFactor, 2),
+    termDays: Math.round(current.termDays * preset.termFactor),
+  }
+
+  return {
+    proposal: {
+      newAmount: terms.amount.toFixed(2),
+      newRate: terms.interestRate.toFixed(2),
+      newTerm: terms.termDays.toString(),
+      reason: preset.reason,
+    },
+    errors: [...validateRestructurePreset(preset), ...validateTerms(terms)],
+  }
+}
+
+// Captures proposed terms as factors of the current ones; a 0% rate can only be kept as is
+export const createRestructurePreset = (
+  name: string,
+  current: LoanTerms,
+  proposed: LoanTerms,
+  reason: string
+): RestructurePreset => {
+  return {
+    id: `custom-${Date.now()}`,
+    name: name.trim(),
+    category: 'Custom',
+    factor: roundTo(proposed.amount / current.amount, FACTOR_DECIMALS),
+    rateFactor: current.interestRate > 0 ? roundTo(proposed.interestRate / current.interestRate, FACTOR_DECIMALS) : 1,
+    termFactor: roundTo(proposed.termDays / current.termDays, FACTOR_DECIMALS),
+    reason: reason.trim(),
+    custom: true,
+  }
+}
+
+// Debt creation presets, listed in DEBT_PRESETS order
+export const BUILT_IN_DEBT_PRESETS: DebtPreset[] = Object.entries(DEBT_PRESETS).map(([id, preset]) => ({ id, ...preset }))
+
+// Presets are typical loans, not bounded by the contract; ones outside its ranges cannot be used as is
+export const validateDebtPreset = (preset: DebtPreset): string[] => {
+  return validateTerms({ amount: preset.amount, interestRate: preset.rate, termDays: preset.days })
+}
+
+// Categories in the order they first appear
+export const groupPresetsByCategory = <T extends { category: string }>(presets: T[]): [string, T[]][] => {
+  const groups = new Map<string, T[]>()
+  for (const preset of presets) {
+    groups.set(preset.category, [...(groups.get(preset.category) ?? []), preset])
+  }
+  return [...groups.entries()]
+}
+
+// Debt descriptions are sealed as "[Category] reason" so they stay readable as plain text
+const DESCRIPTION_PATTERN = /^\[([^\]]+)\]\s*([\s\S]*)$/
+
+export const formatDebtDescription = (category: string, reason: string): string => {
+  const trimmedCategory = category.trim()
+  return trimmedCategory ? `[${trimmedCategory}] ${reason.trim()}` : reason.trim()
+}
+
+export const parseDebtDescription = (description: string): { category?: string; reason: string } => {
+  const match = DESCRIPTION_PATTERN.exec(description)
+  return match ? { category: match[1], reason: match[2] } : { reason: description }
+}
+
+export const debtPresetToForm = (preset: DebtPreset): Required<Omit<CreateDebtForm, 'isAnonymous'>> => {
+  return {
+    amount: preset.amount.toString(),
+    interestRate: preset.rate.toString(),
+    termDays: preset.days.toString(),
+    description: formatDebtDescription(preset.category, preset.reason),
+  }
+}
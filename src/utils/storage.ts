@@ -0,0 +1,109 @@
+// Small async key-value store backed by IndexedDB, falling back to localStorage
+// when IndexedDB is unavailable (private browsing, older browsers).
+
+export interface KeyValueStore<T> {
+  get: (key: string) => Promise<T | undefined>
+  put: (key: string, value: T) => Promise<void>
+  remove: (key: string) => Promise<void>
+  entries: () => Promise<Array<[string, T]>>
+}
+
+const promisifyRequest = <R>(request: IDBRequest<R>): Promise<R> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const requestDatabase = (dbName: string, storeName: string, version?: number): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, version)
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(storeName)) {
+        request.result.createObjectStore(storeName)
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Several stores can share one database, and each creates its own on first use:
+// when the store is missing, reopen one version up so the upgrade can add it.
+// The caller must close its connection on versionchange so that upgrade is not blocked.
+const openDatabase = async (dbName: string, storeName: string): Promise<IDBDatabase> => {
+  const db = await requestDatabase(dbName, storeName)
+  if (db.objectStoreNames.contains(storeName)) return db
+  const nextVersion = db.version + 1
+  db.close()
+  return requestDatabase(dbName, storeName, nextVersion)
+}
+
+const createIndexedDbStore = <T>(dbName: string, storeName: string): KeyValueStore<T> => {
+  let dbPromise: Promise<IDBDatabase> | null = null
+  const withStore = async <R>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<R>) => {
+    if (!dbPromise) {
+      dbPromise = openDatabase(dbName, storeName)
+      dbPromise.then(db => {
+        // Another store of this database is adding itself; reopen on next use
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+      }, () => {
+        dbPromise = null
+      })
+    }
+    const db = await dbPromise
+    return promisifyRequest(fn(db.transaction(storeName, mode).objectStore(storeName)))
+  }
+
+  return {
+    get: key => withStore<T | undefined>('readonly', store => store.get(key)),
+    put: async (key, value) => {
+      await withStore('readwrite', store => store.put(value, key))
+    },
+    remove: async key => {
+      await withStore('readwrite', store => store.delete(key))
+    },
+    entries: async () => {
+      const keys = await withStore<IDBValidKey[]>('readonly', store => store.getAllKeys())
+      const values = await withStore<T[]>('readonly', store => store.getAll())
+      return keys.map((key, i) => [String(key), values[i]] as [string, T])
+    },
+  }
+}
+
+const createLocalStorageStore = <T>(dbName: string, storeName: string): KeyValueStore<T> => {
+  const prefix = `${dbName}:${storeName}:`
+
+  return {
+    get: async key => {
+      const raw = localStorage.getItem(prefix + key)
+      return raw === null ? undefined : (JSON.parse(raw) as T)
+    },
+    put: async (key, value) => {
+      localStorage.setItem(prefix + key, JSON.stringify(value))
+    },
+    remove: async key => {
+      localStorage.removeItem(prefix + key)
+    },
+    entries: async () => {
+      const result: Array<[string, T]> = []
+      for (let i = 0; i < localStorage.length; i++) {
+        const fullKey = localStorage.key(i)
+        if (fullKey && fullKey.startsWith(prefix)) {
+          result.push([fullKey.slice(prefix.length), JSON.parse(localStorage.getItem(fullKey)!) as T])
+        }
+      }
+      return result
+    },
+  }
+}
+
+export const createKeyValueStore = <T>(dbName: string, storeName: string): KeyValueStore<T> => {
+  if (typeof indexedDB !== 'undefined') {
+    return createIndexedDbStore<T>(dbName, storeName)
+  }
+  return createLocalStorageStore<T>(dbName, storeName)
+}
@@ -0,0 +1,202 @@
+// Declarative validation for the debt and proposal forms
+//
+// Each schema maps form fields to rules built from VALIDATION_RULES, which
+// mirror the ranges AnonymousDebtManager enforces on-chain, and lists the
+// cross-field rules that only make sense once every field is valid. The forms
+// show the resulting field-level errors while the user types, and
+// useDebtManager runs the same schema before it encrypts anything.
+
+import { VALIDATION_RULES } from '@/constants'
+import { CreateDebtForm, DebtRecord, ProposeRestructuringForm } from '@/types'
+import {
+  SECONDS_PER_DAY,
+  nowInSeconds,
+  remainingTermDays,
+  toContractAmount,
+  toContractRate,
+  toContractTerm,
+} from '@/contract/units'
+import { formatCurrency } from './index'
+import { LoanTerms } from './amortization'
+
+export interface NumberRule {
+  min: number
+  max: number
+  // Digits kept by the contract unit conversion: cents for amounts, basis points for rates
+  decimals: number
+  format: (value: number) => string
+}
+
+export interface FieldRule {
+  label: string
+  required?: boolean
+  number?: NumberRule
+}
+
+// 'form' holds errors that belong to no single field
+export type FieldErrors<T> = Partial<Record<keyof T | 'form', string>>
+
+export interface CrossFieldRule<T, C> {
+  field: keyof T | 'form'
+  check: (values: T, context: C) => string | null
+}
+
+export interface FormSchema<T, C = void> {
+  fields: Partial<Record<keyof T, FieldRule>>
+  rules: CrossFieldRule<T, C>[]
+}
+
+export const AMOUNT_RULE: NumberRule = {
+  min: VALIDATION_RULES.MIN_AMOUNT,
+  max: VALIDATION_RULES.MAX_AMOUNT,
+  decimals: 2,
+  format: formatCurrency,
+}
+
+export const RATE_RULE: NumberRule = {
+  min: VALIDATION_RULES.MIN_RATE,
+  max: VALIDATION_RULES.MAX_RATE,
+  decimals: 2,
+  format: (value) => `${value}%`,
+}
+
+export const TERM_RULE: NumberRule = {
+  min: VALIDATION_RULES.MIN_TERM,
+  max: VALIDATION_RULES.MAX_TERM,
+  decimals: 0,
+  format: (value) => `${value} days`,
+}
+
+const checkNumber = (label: string, rule: NumberRule, value: number): string | null => {
+  if (!Number.isFinite(value)) return `${label} must be a number`
+  if (value < rule.min || value > rule.max) {
+    return `${label} must be between ${rule.format(rule.min)} and ${rule.format(rule.max)}`
+  }
+  const scale = Math.pow(10, rule.decimals)
+  if (Math.abs(Math.round(value * scale) - value * scale) > 1e-6) {
+    return rule.decimals === 0
+      ? `${label} must be a whole number`
+      : `${label} can have at most ${rule.decimals} decimal places`
+  }
+  return null
+}
+
+export const validateField = (rule: FieldRule, raw: string | undefined): string | null => {
+  const value = (raw ?? '').trim()
+  if (!value) return rule.required ? `${rule.label} is required` : null
+  return rule.number ? checkNumber(rule.label, rule.number, Number(value)) : null
+}
+
+export const validateFields = <T>(fields: FormSchema<T, unknown>['fields'], values: T): FieldErrors<T> => {
+  const errors: FieldErrors<T> = {}
+  for (const [field, rule] of Object.entries(fields) as [keyof T, FieldRule][]) {
+    const error = validateField(rule, values[field] as unknown as string | undefined)
+    if (error) errors[field] = error
+  }
+  return errors
+}
+
+export const validateForm = <T, C>(schema: FormSchema<T, C>, values: T, context: C): FieldErrors<T> => {
+  const errors = validateFields(schema.fields, values)
+  // Cross-field rules compare parsed values, which are only meaningful once each field passed
+  if (Object.keys(errors).length > 0) return errors
+
+  for (const rule of schema.rules) {
+    const error = errors[rule.field] ? null : rule.check(values, context)
+    if (error) errors[rule.field] = error
+  }
+  return errors
+}
+
+export const hasErrors = <T>(errors: FieldErrors<T>): boolean => Object.keys(errors).length > 0
+
+export const firstError = <T>(errors: FieldErrors<T>): string | undefined => Object.values<string | undefined>(errors)[0]
+
+// The same ranges for terms that did not come from a form, e.g. a preset applied to a debt
+export const validateTerms = (terms: LoanTerms): string[] => {
+  return [
+    checkNumber('Amount', AMOUNT_RULE, terms.amount),
+    checkNumber('Interest rate', RATE_RULE, terms.interestRate),
+    checkNumber('Term', TERM_RULE, terms.termDays),
+  ].filter((error): error is string => error !== null)
+}
+
+export const CREATE_DEBT_SCHEMA: FormSchema<CreateDebtForm> = {
+  fields: {
+    amount: { label: 'Amount', required: true, number: AMOUNT_RULE },
+    interestRate: { label: 'Interest rate', required: true, number: RATE_RULE },
+    termDays: { label: 'Term', required: true, number: TERM_RULE },
+  },
+  rules: [],
+}
+
+export const validateCreateDebt = (values: CreateDebtForm): FieldErrors<CreateDebtForm> => {
+  return validateForm(CREATE_DEBT_SCHEMA, values, undefined)
+}
+
+// What the proposal is measured against: the terms the form shows as current and when the debt started
+export interface ProposalContext {
+  current: LoanTerms
+  createdAt: number
+  now?: number
+}
+
+// The view functions return placeholder terms, so proposals are measured against
+// the decrypted ones: what is owed now and the part of the term still to run
+export const proposalContextFor = (debt: DebtRecord, decrypted: LoanTerms): ProposalContext => ({
+  current: { ...decrypted, termDays: remainingTermDays(debt.createdAt, decrypted.termDays) },
+  createdAt: debt.createdAt,
+})
+
+export const TERMS_REQUIRED_MESSAGE = "Decrypt the debt's current terms before proposing new ones"
+
+// Simple interest on the current amount since the debt was created
+export const maxRestructuredAmount = ({ current, createdAt, now = nowInSeconds() }: ProposalContext): number => {
+  const elapsedDays = Math.max(0, now - createdAt) / SECONDS_PER_DAY
+  const accrued = current.amount * (current.interestRate / 100) * (elapsedDays / 365)
+  return Math.floor((current.amount + accrued) * 100) / 100
+}
+
+export const PROPOSAL_SCHEMA: FormSchema<ProposeRestructuringForm, ProposalContext> = {
+  fields: {
+    selectedDebtId: { label: 'Debt', required: true },
+    newAmount: { label: 'New amount', required: true, number: AMOUNT_RULE },
+    newRate: { label: 'New interest rate', required: true, number: RATE_RULE },
+    newTerm: { label: 'New term', required: true, number: TERM_RULE },
+    reason: { label: 'Reason', required: true },
+  },
+  rules: [
+    {
+      field: 'newAmount',
+      check: (values, context) => {
+        const limit = maxRestructuredAmount(context)
+        return toContractAmount(Number(values.newAmount)) > toContractAmount(limit)
+          ? `New amount cannot exceed ${formatCurrency(limit)}, the current amount plus accrued interest`
+          : null
+      },
+    },
+    {
+      // Compared in contract units so 5 and 5.00 count as the same rate
+      field: 'form',
+      check: (values, { current }) => {
+        const unchanged =
+          toContractAmount(Number(values.newAmount)) === toContractAmount(current.amount) &&
+          toContractRate(Number(values.newRate)) === toContractRate(current.interestRate) &&
+          toContractTerm(Number(values.newTerm)) === toContractTerm(current.termDays)
+        return unchanged ? 'The proposal must change the amount, rate or term' : null
+      },
+    },
+  ],
+}
+
+// Without the selected debt's terms only the fields themselves can be checked,
+// and the proposal is held back until the terms are known
+export const validateProposal = (
+  values: ProposeRestructuringForm,
+  context: ProposalContext | null
+): FieldErrors<ProposeRestructuringForm> => {
+  if (context) return validateForm(PROPOSAL_SCHEMA, values, context)
+  const errors = validateFields(PROPOSAL_SCHEMA.fields, values)
+  if (values.selectedDebtId) errors.form = TERMS_REQUIRED_MESSAGE
+  return errors
+}
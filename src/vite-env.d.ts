@@ -1,5 +1,14 @@
 /// <reference types="vite/client" />
 
+interface ImportMetaEnv {
+  readonly VITE_CONTRACT_ADDRESS?: string
+  readonly VITE_CONTRACT_DEPLOYMENT_BLOCK?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}
+
 declare global {
   interface Window {
     ethereum?: any
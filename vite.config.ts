@@ -1,10 +1,39 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { fileURLToPath, URL } from 'node:url'
+
+// fhevmjs' thread-pool worker spawns copies of itself through
+// `new URL('workerHelpers.worker.js', import.meta.url)`, which sends Vite 4's
+// worker bundler into an endless loop. Inside the worker that URL is simply
+// its own, so point it at import.meta.url directly.
+const fhevmjsWorkerSelfSpawn = (): Plugin => ({
+  name: 'fhevmjs-worker-self-spawn',
+  enforce: 'pre',
+  transform(code, id) {
+    if (!id.includes('fhevmjs/lib/workerHelpers.worker.js')) return null
+    return code.replace('new URL("workerHelpers.worker.js", import.meta.url)', 'import.meta.url')
+  }
+})
 
 export default defineConfig({
   plugins: [react()],
+  worker: {
+    format: 'es',
+    plugins: [fhevmjsWorkerSelfSpawn()]
+  },
+  optimizeDeps: {
+    // Pre-bundling would move fhevmjs away from the .wasm files it locates
+    // through import.meta.url, so only its CommonJS dependencies are optimized
+    exclude: ['fhevmjs'],
+    include: ['fhevmjs > bigint-buffer', 'fhevmjs > keccak', 'fhevmjs > wasm-feature-detect']
+  },
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url))
+    }
+  },
   server: {
     host: true,
     port: 3000
   }
-})
\ No newline at end of file
+})